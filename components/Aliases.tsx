@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Plus, Save, Trash2, UserCog } from 'lucide-react';
+import type { AliasGroup } from '../lib/aliases';
+
+type Draft = { name: string; members: string };
+
+const toDraft = (groups: AliasGroup[]): Draft[] => groups.map(g => ({ name: g.name, members: g.members.join(', ') }));
+
+/**
+ * Edits the server's alias groups: one identity per line, its in-game names comma-separated.
+ * Saving needs the admin token the server was configured with; otherwise the list is read-only.
+ */
+export default function Aliases({ groups, editable, onSaved }: { groups: AliasGroup[]; editable: boolean; onSaved: (groups: AliasGroup[]) => void }) {
+  const [drafts, setDrafts] = useState<Draft[]>(() => toDraft(groups));
+  const [token, setToken] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => { setDrafts(toDraft(groups)); }, [groups]);
+
+  const update = (i: number, patch: Partial<Draft>) => setDrafts(drafts.map((d, j) => j === i ? { ...d, ...patch } : d));
+
+  const save = async () => {
+    setSaving(true); setErrors([]);
+    try {
+      const body = {
+        groups: drafts
+          .filter(d => d.name.trim() || d.members.trim())
+          .map(d => ({ name: d.name, members: d.members.split(',').map(m => m.trim()).filter(Boolean) })),
+      };
+      const res = await fetch('/api/aliases', { method: 'PUT', headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` }, body: JSON.stringify(body) });
+      const j = await res.json();
+      if (!j.ok) { setErrors(j.details?.errors || [j.error || 'Unknown error']); return; }
+      onSaved(j.groups);
+    } catch (e: any) {
+      setErrors([e?.message || String(e)]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><UserCog className="h-4 w-4"/> Alias groups ({groups.length})</div>
+        {editable && <div className="flex gap-2">
+          <input type="password" className="w-36 rounded-xl border px-2 py-1.5 text-sm" value={token} onChange={e => setToken(e.target.value)} placeholder="Admin token" />
+          <button onClick={() => setDrafts([...drafts, { name: '', members: '' }])} className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm">
+            <Plus className="h-4 w-4"/> Add group
+          </button>
+          <button onClick={save} disabled={saving} className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin"/> : <Save className="h-4 w-4"/>} Save
+          </button>
+        </div>}
+      </div>
+      <div className="mt-1 text-xs text-gray-500">Every name in a group counts as the group's name in all stats, tables and exports.{editable ? '' : ' Editing is turned off on this server.'}</div>
+      <div className="mt-3 space-y-2">
+        {drafts.map((d, i) => (
+          <div key={i} className="flex gap-2">
+            <input className="w-40 rounded-xl border p-2 text-sm" value={d.name} readOnly={!editable} onChange={e => update(i, { name: e.target.value })} placeholder="Shown as" />
+            <input className="flex-1 rounded-xl border p-2 text-sm" value={d.members} readOnly={!editable} onChange={e => update(i, { members: e.target.value })} placeholder="In-game names, comma-separated" />
+            {editable && <button onClick={() => setDrafts(drafts.filter((_, j) => j !== i))} className="rounded-xl border px-2" aria-label="Remove group"><Trash2 className="h-4 w-4"/></button>}
+          </div>
+        ))}
+        {drafts.length === 0 && <div className="text-sm text-gray-500">No alias groups yet.</div>}
+      </div>
+      {errors.length > 0 && (
+        <ul className="mt-3 ml-4 list-disc text-sm text-red-700">{errors.map((e, i) => <li key={i}>{e}</li>)}</ul>
+      )}
+    </div>
+  );
+}
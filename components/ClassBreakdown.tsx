@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { Swords } from 'lucide-react';
+import { comboStats, matchupMatrix, playerClassStats, type Tally } from '../lib/classes';
+import { pct, type Row } from '../lib/rows';
+
+const TOP = 10;
+
+function heat(winrate: number) {
+  // red at 0%, neutral at 50%, green at 100%
+  const hue = Math.round(winrate * 120);
+  return { background: `hsl(${hue} 70% 90%)` };
+}
+
+export function TallyTable({ title, rows, empty }: { title: string; rows: Tally[]; empty: string }) {
+  return (
+    <div>
+      <div className="text-xs uppercase tracking-wide text-gray-500">{title}</div>
+      <table className="mt-2 min-w-full text-left text-sm">
+        <thead>
+          <tr className="border-b bg-gray-50">
+            <th className="p-2">Classes</th>
+            <th className="p-2">Games</th>
+            <th className="p-2">W-L</th>
+            <th className="p-2">Win Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(t => (
+            <tr key={t.key} className="border-b">
+              <td className="p-2 font-medium">{t.key}</td>
+              <td className="p-2 tabular-nums">{t.games}</td>
+              <td className="p-2 tabular-nums">{t.wins}-{t.losses}</td>
+              <td className="p-2 tabular-nums">{pct(t.winrate)}</td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr><td className="p-4 text-center text-gray-500" colSpan={4}>{empty}</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ClassBreakdown({ rows, player }: { rows: Row[]; player: string }) {
+  const mine = useMemo(() => playerClassStats(rows, player), [rows, player]);
+  const matrix = useMemo(() => matchupMatrix(rows), [rows]);
+  const combos = useMemo(() => comboStats(rows), [rows]);
+
+  return (
+    <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><Swords className="h-4 w-4"/> Classes</div>
+
+      <div className="mt-3 grid grid-cols-1 gap-4 md:grid-cols-2 overflow-x-auto">
+        <TallyTable title={`By class for ${player || '—'}`} rows={mine.byClass} empty="No class data for this player." />
+        <TallyTable title={`By combination for ${player || '—'}`} rows={mine.byCombo.slice(0, TOP)} empty="No class data for this player." />
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-2 overflow-x-auto">
+        <TallyTable title="Most played combinations (all games)" rows={combos.mostPlayed.slice(0, TOP)} empty="No class data yet." />
+        <TallyTable title={`Best combinations (min ${combos.minGames} games)`} rows={combos.best.slice(0, TOP)} empty="Not enough games yet." />
+      </div>
+
+      <div className="mt-6 text-xs uppercase tracking-wide text-gray-500">Matchup matrix (row class win rate vs column class, all games)</div>
+      <div className="mt-2 overflow-x-auto">
+        {matrix.classes.length === 0 ? (
+          <div className="p-4 text-center text-sm text-gray-500">No class data yet.</div>
+        ) : (
+          <table className="text-center text-xs">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="p-2 text-left">vs</th>
+                {matrix.classes.map(c => <th key={c} className="p-2">{c}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.classes.map(a => (
+                <tr key={a} className="border-b">
+                  <td className="p-2 text-left font-medium">{a}</td>
+                  {matrix.classes.map(b => {
+                    const cell = matrix.cells[a]?.[b];
+                    if (!cell) return <td key={b} className="p-2 text-gray-300">—</td>;
+                    const wr = cell.wins / cell.games;
+                    return (
+                      <td key={b} className="p-2 tabular-nums" style={heat(wr)} title={`${a} vs ${b}: ${cell.wins}/${cell.games}`}>
+                        {pct(wr, 0)}<div className="text-[10px] text-gray-500">n={cell.games}</div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
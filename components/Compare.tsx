@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react';
+import { Columns, Plus, X } from 'lucide-react';
+import { headToHead, playerSummary, type PlayerSummary } from '../lib/compare';
+import { normName, pct, type Row } from '../lib/rows';
+import { dateKey, LOCAL_TZ } from '../lib/timezone';
+
+const METRICS: Array<{ label: string; value: (s: PlayerSummary, tz: string) => string }> = [
+  { label: 'Games', value: s => String(s.games) },
+  { label: 'W-L', value: s => `${s.wins}-${s.losses}` },
+  { label: 'Win Rate', value: s => s.games ? pct(s.winrate) : '—' },
+  { label: 'Current streak', value: s => s.current ? `${s.current.length}${s.current.result}` : '—' },
+  { label: 'Longest win streak', value: s => s.longestWin ? String(s.longestWin.length) : '—' },
+  { label: 'Most played classes', value: s => s.topCombo || '—' },
+  { label: 'Last played', value: (s, tz) => s.lastPlayed !== null ? dateKey(s.lastPlayed, tz) : '—' },
+];
+
+/**
+ * Side-by-side stats for several players or alias groups. `rows` should already have
+ * aliases applied; `suggestions` feed the name picker. Days are in `timeZone`.
+ */
+export default function Compare({ rows, suggestions, canonical, timeZone = LOCAL_TZ }: { rows: Row[]; suggestions: string[]; canonical: (name: string) => string; timeZone?: string }) {
+  const [names, setNames] = useState<string[]>([]);
+  const [draft, setDraft] = useState('');
+
+  const summaries = useMemo(() => names.map(n => playerSummary(rows, n)), [rows, names]);
+  const h2h = useMemo(() => headToHead(rows, names), [rows, names]);
+
+  const add = () => {
+    const name = canonical(draft.trim());
+    if (name && !names.some(n => normName(n) === normName(name))) setNames([...names, name]);
+    setDraft('');
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><Columns className="h-4 w-4"/> Compare players</div>
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {names.map(n => (
+          <span key={n} className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-sm">
+            {n}
+            <button onClick={() => setNames(names.filter(x => x !== n))} aria-label={`Remove ${n}`}><X className="h-3 w-3"/></button>
+          </span>
+        ))}
+        <input
+          className="rounded-xl border p-1.5 text-sm"
+          list="compare-players"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') add(); }}
+          placeholder="Player or group"
+        />
+        <datalist id="compare-players">{suggestions.map(s => <option key={s} value={s} />)}</datalist>
+        <button onClick={add} disabled={!draft.trim()} className="inline-flex items-center gap-1 rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60">
+          <Plus className="h-4 w-4"/> Add
+        </button>
+      </div>
+
+      {names.length > 0 && (
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="p-2"></th>
+                {names.map(n => <th key={n} className="p-2">{n}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {METRICS.map(m => (
+                <tr key={m.label} className="border-b">
+                  <td className="p-2 text-gray-500">{m.label}</td>
+                  {summaries.map(s => <td key={s.name} className="p-2 tabular-nums">{m.value(s, timeZone)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {names.length > 1 && (
+        <div className="mt-4 overflow-x-auto">
+          <div className="text-xs uppercase tracking-wide text-gray-500">Head to head (row's wins against column)</div>
+          <table className="mt-2 min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="p-2"></th>
+                {names.map(n => <th key={n} className="p-2">{n}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {names.map((a, i) => (
+                <tr key={a} className="border-b">
+                  <td className="p-2 font-medium">{a}</td>
+                  {names.map((b, j) => <td key={b} className="p-2 tabular-nums">{i === j ? '—' : `${h2h[i][j]}-${h2h[j][i]}`}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { AlertTriangle } from 'lucide-react';
+import type { DataWarning } from '../lib/integrity';
+
+/** Data-quality problems the server couldn't resolve for the range the stats are built on. */
+export default function DataWarnings({ warnings }: { warnings: DataWarning[] }) {
+  if (!warnings.length) return null;
+  return (
+    <div className="mt-4 rounded-2xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+      <div className="flex items-center gap-2 font-medium"><AlertTriangle className="h-4 w-4"/> Data quality: the stats may be off</div>
+      <ul className="mt-1 ml-6 list-disc text-xs">
+        {warnings.map((w, i) => <li key={i} title={`blocks ${w.fromBlock}–${w.toBlock}`}>{w.message}</li>)}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, Trophy } from 'lucide-react';
+import type { DataWarning } from '../lib/integrity';
+import type { LeaderboardEntry, PlayerRating } from '../lib/rating';
+import { pct } from '../lib/rows';
+import DataWarnings from './DataWarnings';
+
+type LeaderboardResponse = {
+  ok: boolean;
+  error?: string;
+  total?: number;
+  page?: number;
+  pageSize?: number;
+  entries?: LeaderboardEntry[];
+  player?: PlayerRating | null;
+  warnings?: DataWarning[];
+};
+
+const PAGE_SIZE = 25;
+
+function Sparkline({ points }: { points: number[] }) {
+  if (points.length < 2) return null;
+  const w = 240, h = 48;
+  const lo = Math.min(...points), hi = Math.max(...points);
+  const span = hi - lo || 1;
+  const d = points.map((p, i) => `${(i / (points.length - 1)) * w},${h - ((p - lo) / span) * h}`).join(' ');
+  return (
+    <svg width={w} height={h} className="overflow-visible">
+      <polyline points={d} fill="none" stroke="#2563eb" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+export default function Leaderboard({ profile, rpc, aliases, player, onSelect }: { profile: string; rpc?: string; aliases: boolean; player: string; onSelect: (name: string) => void }) {
+  const [data, setData] = useState<LeaderboardResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (page: number) => {
+    setLoading(true); setError(null);
+    try {
+      const qs = new URLSearchParams({ profile, page: String(page), pageSize: String(PAGE_SIZE), player });
+      if (rpc) qs.set('rpc', rpc);
+      if (!aliases) qs.set('aliases', '0');
+      const res = await fetch(`/api/leaderboard?${qs}`);
+      const j: LeaderboardResponse = await res.json();
+      if (!j.ok) throw new Error(j.error || 'Unknown error');
+      setData(j);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const page = data?.page || 1;
+  const pages = data?.total ? Math.ceil(data.total / (data.pageSize || PAGE_SIZE)) : 1;
+  const me = data?.player;
+
+  return (
+    <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><Trophy className="h-4 w-4"/> Leaderboard (all-time Elo{data?.total ? `, ${data.total} players` : ''})</div>
+        <button onClick={() => load(page)} disabled={loading} className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60">
+          {loading && <Loader2 className="h-4 w-4 animate-spin"/>}
+          {data ? 'Refresh' : 'Load leaderboard'}
+        </button>
+      </div>
+      {error && <div className="mt-3 rounded-xl border border-red-200 bg-red-50 p-2 text-sm text-red-700">{error}</div>}
+      <DataWarnings warnings={data?.warnings || []} />
+
+      {me && (
+        <div className="mt-3 flex flex-wrap items-center gap-4 rounded-xl border p-3 text-sm">
+          <div><span className="font-semibold">{me.name}</span>: {Math.round(me.rating)} (peak {Math.round(me.peak)}) over {me.games} games</div>
+          <Sparkline points={me.history.map(h => h.rating)} />
+        </div>
+      )}
+
+      {data && (
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="p-2">#</th>
+                <th className="p-2">Player</th>
+                <th className="p-2">Rating</th>
+                <th className="p-2">Games</th>
+                <th className="p-2">W-L</th>
+                <th className="p-2">Win Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(data.entries || []).map(e => (
+                <tr key={e.key} className="border-b">
+                  <td className="p-2 tabular-nums">{e.rank}</td>
+                  <td className="p-2"><button className="text-blue-600 underline" onClick={() => onSelect(e.name)}>{e.name}</button></td>
+                  <td className="p-2 tabular-nums font-medium">{Math.round(e.rating)}</td>
+                  <td className="p-2 tabular-nums">{e.games}</td>
+                  <td className="p-2 tabular-nums">{e.wins}-{e.losses}</td>
+                  <td className="p-2 tabular-nums">{pct(e.winrate)}</td>
+                </tr>
+              ))}
+              {!data.entries?.length && (
+                <tr><td className="p-6 text-center text-gray-500" colSpan={6}>No rated players yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+          <div className="mt-3 flex items-center justify-end gap-2 text-sm">
+            <button onClick={() => load(page - 1)} disabled={loading || page <= 1} className="rounded-xl border p-1.5 disabled:opacity-40"><ChevronLeft className="h-4 w-4"/></button>
+            <span className="tabular-nums">Page {page} / {pages}</span>
+            <button onClick={() => load(page + 1)} disabled={loading || page >= pages} className="rounded-xl border p-1.5 disabled:opacity-40"><ChevronRight className="h-4 w-4"/></button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
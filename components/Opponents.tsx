@@ -0,0 +1,110 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeft, ChevronDown, ChevronUp, Users } from 'lucide-react';
+import { opponentStats, sortOpponents, type OpponentSortKey } from '../lib/opponents';
+import { fmtDuration, pct, rowTime, type PlayerMatch } from '../lib/rows';
+import { formatTime, LOCAL_TZ } from '../lib/timezone';
+
+const COLUMNS: Array<{ key: OpponentSortKey; label: string }> = [
+  { key: 'opponent', label: 'Opponent' },
+  { key: 'games', label: 'Games' },
+  { key: 'wins', label: 'Wins' },
+  { key: 'losses', label: 'Losses' },
+  { key: 'winrate', label: 'Win Rate' },
+  { key: 'lastPlayed', label: 'Last Played' },
+];
+
+export default function Opponents({ matches, player, timeZone = LOCAL_TZ }: { matches: PlayerMatch[]; player: string; timeZone?: string }) {
+  const [sortKey, setSortKey] = useState<OpponentSortKey>('games');
+  const [sortDir, setSortDir] = useState<'asc'|'desc'>('desc');
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const stats = useMemo(() => opponentStats(matches), [matches]);
+  const list = useMemo(() => sortOpponents(stats, sortKey, sortDir), [stats, sortKey, sortDir]);
+  const current = selected ? stats.find(o => o.key === selected) : undefined;
+
+  const sortBy = (key: OpponentSortKey) => {
+    if (key === sortKey) setSortDir(sortDir === 'asc' ? 'desc' : 'asc');
+    else { setSortKey(key); setSortDir(key === 'opponent' ? 'asc' : 'desc'); }
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <Users className="h-4 w-4"/>
+          {current
+            ? <span><span className="font-semibold">{player}</span> vs <span className="font-semibold">{current.opponent}</span> ({current.wins}-{current.losses}, {pct(current.winrate)})</span>
+            : <span>Opponents of <span className="font-semibold">{player || '—'}</span> ({stats.length})</span>}
+        </div>
+        {current && (
+          <button onClick={() => setSelected(null)} className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm">
+            <ArrowLeft className="h-4 w-4"/> All opponents
+          </button>
+        )}
+      </div>
+
+      <div className="mt-3 overflow-x-auto">
+        {current ? (
+          <table className="min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="p-2">Game #</th>
+                <th className="p-2">Result</th>
+                <th className="p-2">Started</th>
+                <th className="p-2">Your classes</th>
+                <th className="p-2">Their classes</th>
+                <th className="p-2">Length</th>
+                <th className="p-2">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {current.matches.map((m, i) => (
+                <tr key={m.txHash + i} className="border-b">
+                  <td className="p-2 tabular-nums">{m.gameNumber}</td>
+                  <td className="p-2 font-medium">{m.result}</td>
+                  <td className="p-2">{formatTime(rowTime(m), timeZone)}</td>
+                  <td className="p-2">{m.result === 'W' ? m.winningClasses : m.losingClasses}</td>
+                  <td className="p-2">{m.result === 'W' ? m.losingClasses : m.winningClasses}</td>
+                  <td className="p-2 tabular-nums">{fmtDuration(m.lengthSec)}</td>
+                  <td className="p-2">{m.endReason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                {COLUMNS.map(c => (
+                  <th key={c.key} className="p-2">
+                    <button className="inline-flex items-center gap-1" onClick={() => sortBy(c.key)}>
+                      {c.label}
+                      {sortKey === c.key && (sortDir === 'asc' ? <ChevronUp className="h-3 w-3"/> : <ChevronDown className="h-3 w-3"/>)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {list.map(o => (
+                <tr key={o.key} className="border-b cursor-pointer hover:bg-gray-50" onClick={() => setSelected(o.key)}>
+                  <td className="p-2 font-medium text-blue-600 underline">{o.opponent}</td>
+                  <td className="p-2 tabular-nums">{o.games}</td>
+                  <td className="p-2 tabular-nums">{o.wins}</td>
+                  <td className="p-2 tabular-nums">{o.losses}</td>
+                  <td className="p-2 tabular-nums">{pct(o.winrate)}</td>
+                  <td className="p-2">{formatTime(o.lastPlayed, timeZone)}</td>
+                </tr>
+              ))}
+              {list.length === 0 && (
+                <tr>
+                  <td className="p-6 text-center text-gray-500" colSpan={COLUMNS.length}>No opponents for this player (in the chosen range) yet.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo } from 'react';
+import { Timer } from 'lucide-react';
+import { endReasonStats, matchupLengths, winrateByLength } from '../lib/outcomes';
+import { fmtDuration, pct, type PlayerMatch, type Row } from '../lib/rows';
+
+const TOP_CLASSES = 12;
+
+/**
+ * Win rate by game length and end reasons for one player, plus average game length per
+ * class matchup over `rows` (all games) or, without it, over the player's own games.
+ */
+export default function Outcomes({ matches, rows, player }: { matches: PlayerMatch[]; rows?: Row[]; player: string }) {
+  const byLength = useMemo(() => winrateByLength(matches), [matches]);
+  const reasons = useMemo(() => endReasonStats(matches), [matches]);
+  const lengths = useMemo(() => matchupLengths(rows || matches), [rows, matches]);
+  const classes = lengths.classes.slice(0, TOP_CLASSES);
+  const maxGames = Math.max(1, ...byLength.buckets.map(b => b.games));
+
+  return (
+    <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><Timer className="h-4 w-4"/> Game length &amp; end reasons for <span className="font-semibold">{player || '—'}</span></div>
+
+      <div className="mt-3 grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div>
+          <div className="text-xs uppercase tracking-wide text-gray-500">Win rate by game length</div>
+          <table className="mt-2 min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="p-2">Length</th>
+                <th className="p-2">Games</th>
+                <th className="p-2">W-L</th>
+                <th className="p-2">Win Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byLength.buckets.map(b => (
+                <tr key={b.key} className="border-b">
+                  <td className="p-2">{b.key}</td>
+                  <td className="p-2 tabular-nums">
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 rounded bg-gray-800" style={{ width: `${(b.games / maxGames) * 60}px` }} />
+                      {b.games}
+                    </div>
+                  </td>
+                  <td className="p-2 tabular-nums">{b.wins}-{b.losses}</td>
+                  <td className="p-2 tabular-nums">{b.games ? pct(b.winrate) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {byLength.unknown > 0 && <div className="mt-1 text-xs text-gray-500">{byLength.unknown} games with an unreadable length left out.</div>}
+        </div>
+
+        <div>
+          <div className="text-xs uppercase tracking-wide text-gray-500">End reasons</div>
+          <table className="mt-2 min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="p-2">Reason</th>
+                <th className="p-2">Share</th>
+                <th className="p-2">Won</th>
+                <th className="p-2">Lost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reasons.map(r => (
+                <tr key={r.key} className="border-b">
+                  <td className="p-2 font-medium">{r.reason}</td>
+                  <td className="p-2 tabular-nums">{pct(r.share)} <span className="text-xs text-gray-500">({r.games})</span></td>
+                  <td className="p-2 tabular-nums">{r.wins}</td>
+                  <td className="p-2 tabular-nums">{r.losses}</td>
+                </tr>
+              ))}
+              {reasons.length === 0 && (
+                <tr><td className="p-4 text-center text-gray-500" colSpan={4}>No games for this player.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-6 text-xs uppercase tracking-wide text-gray-500">Average game length by class matchup ({rows ? 'all games' : `${player}'s games`})</div>
+      <div className="mt-2 overflow-x-auto">
+        {classes.length === 0 ? (
+          <div className="p-4 text-center text-sm text-gray-500">No games with both classes and a length yet.</div>
+        ) : (
+          <table className="text-center text-xs">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="p-2 text-left">vs</th>
+                {classes.map(c => <th key={c} className="p-2">{c}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {classes.map(a => (
+                <tr key={a} className="border-b">
+                  <td className="p-2 text-left font-medium">{a}</td>
+                  {classes.map(b => {
+                    const cell = lengths.cells[a]?.[b];
+                    if (!cell) return <td key={b} className="p-2 text-gray-300">—</td>;
+                    return (
+                      <td key={b} className="p-2 tabular-nums" title={`${a} vs ${b}: ${cell.games} games`}>
+                        {fmtDuration(cell.totalSec / cell.games)}<div className="text-[10px] text-gray-500">n={cell.games}</div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
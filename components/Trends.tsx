@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { bucketize, rollingWinrate, streaks, type BucketSize, type Streak } from '../lib/timeseries';
+import { pct, type PlayerMatch } from '../lib/rows';
+import { LOCAL_TZ } from '../lib/timezone';
+
+const W = 640, H = 120;
+
+function Bars({ values, labels }: { values: number[]; labels: string[] }) {
+  const max = Math.max(1, ...values);
+  const bw = W / Math.max(1, values.length);
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full" preserveAspectRatio="none" style={{ height: H }}>
+      {values.map((v, i) => (
+        <rect key={i} x={i * bw + 1} y={H - (v / max) * H} width={Math.max(1, bw - 2)} height={(v / max) * H} fill="#111827">
+          <title>{`${labels[i]}: ${v}`}</title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
+
+/** Win rate line on a fixed 0–100% scale with a dashed 50% guide. */
+function Line({ values, labels }: { values: Array<number | null>; labels: string[] }) {
+  const step = W / Math.max(1, values.length - 1);
+  const pts = values.map((v, i) => v === null ? null : { x: values.length === 1 ? W / 2 : i * step, y: H - v * H, v, i });
+  const path = pts.filter(Boolean).map(p => `${p!.x},${p!.y}`).join(' ');
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full" preserveAspectRatio="none" style={{ height: H }}>
+      <line x1={0} x2={W} y1={H / 2} y2={H / 2} stroke="#d1d5db" strokeDasharray="4 4" />
+      <polyline points={path} fill="none" stroke="#2563eb" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      {pts.map(p => p && (
+        <circle key={p.i} cx={p.x} cy={p.y} r={2} fill="#2563eb"><title>{`${labels[p.i]}: ${pct(p.v)}`}</title></circle>
+      ))}
+    </svg>
+  );
+}
+
+function StreakCard({ label, streak }: { label: string; streak: Streak | null }) {
+  return (
+    <div className="rounded-2xl border p-3 text-center">
+      <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+      <div className="mt-1 text-2xl font-semibold">{streak ? `${streak.length}${streak.result}` : '—'}</div>
+      {streak && <div className="text-xs text-gray-500">games #{streak.fromGame}–#{streak.toGame}</div>}
+    </div>
+  );
+}
+
+export default function Trends({ matches, player, timeZone = LOCAL_TZ }: { matches: PlayerMatch[]; player: string; timeZone?: string }) {
+  const [size, setSize] = useState<BucketSize>('day');
+  const [rollN, setRollN] = useState(20);
+
+  const { buckets, undated } = useMemo(() => bucketize(matches, size, timeZone), [matches, size, timeZone]);
+  const rolling = useMemo(() => rollingWinrate(matches, rollN), [matches, rollN]);
+  const s = useMemo(() => streaks(matches), [matches]);
+  const labels = buckets.map(b => b.key);
+
+  return (
+    <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><TrendingUp className="h-4 w-4"/> Trends for <span className="font-semibold">{player || '—'}</span></div>
+        <div className="flex items-center gap-2 text-xs">
+          <button className={`rounded-full border px-3 py-1 ${size === 'day' ? 'bg-black text-white' : ''}`} onClick={() => setSize('day')}>Daily</button>
+          <button className={`rounded-full border px-3 py-1 ${size === 'week' ? 'bg-black text-white' : ''}`} onClick={() => setSize('week')}>Weekly</button>
+          <label className="ml-2 text-gray-500">Rolling</label>
+          <input type="number" min={2} max={500} className="w-16 rounded-xl border p-1 text-xs" value={rollN} onChange={e => setRollN(Math.max(2, Math.min(500, Number(e.target.value) || 2)))} />
+          <span className="text-gray-500">games</span>
+        </div>
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 gap-4 md:grid-cols-3">
+        <StreakCard label="Current streak" streak={s.current} />
+        <StreakCard label="Longest win streak" streak={s.longestWin} />
+        <StreakCard label="Longest loss streak" streak={s.longestLoss} />
+      </div>
+
+      {buckets.length === 0 ? (
+        <div className="mt-4 p-6 text-center text-sm text-gray-500">No dated matches for this player (in the chosen range) yet.</div>
+      ) : (
+        <>
+          <div className="mt-4 text-xs uppercase tracking-wide text-gray-500">Games per {size} ({labels[0]} → {labels[labels.length - 1]})</div>
+          <Bars values={buckets.map(b => b.games)} labels={labels} />
+          <div className="mt-4 text-xs uppercase tracking-wide text-gray-500">Win rate per {size}</div>
+          <Line values={buckets.map(b => b.games ? b.winrate : null)} labels={labels.map((l, i) => `${l} (${buckets[i].wins}-${buckets[i].losses})`)} />
+        </>
+      )}
+      {undated > 0 && (
+        <div className="mt-1 text-xs text-gray-500">{undated} {undated === 1 ? 'game has' : 'games have'} no readable start time and {undated === 1 ? 'is' : 'are'} left out of the per-{size} charts.</div>
+      )}
+
+      <div className="mt-4 text-xs uppercase tracking-wide text-gray-500">Rolling {rollN}-game win rate</div>
+      {rolling.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">Needs at least {rollN} matches.</div>
+      ) : (
+        <Line values={rolling.map(r => r.winrate)} labels={rolling.map(r => `game ${r.index} (#${r.gameNumber})`)} />
+      )}
+    </div>
+  );
+}
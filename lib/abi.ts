@@ -0,0 +1,88 @@
+import { Interface } from 'ethers';
+import { typedRow, type Row } from './rows';
+
+/**
+ * Known GameResultEvent layouts by version id. A profile may also list a full `event ...`
+ * signature instead of an id; fields are matched by name, so a layout only needs to use
+ * the same argument names as v1 for whatever it shares with it.
+ */
+export const ABI_VERSIONS: Record<string, string> = {
+  v1: 'event GameResultEvent(uint256 gameNumber, string gameId, string startedAt, string winningPlayer, string winningClasses, string losingPlayer, string losingClasses, string gameLength, string endReason)',
+};
+
+export type Decoder = { spec: string; topic0: string; iface: Interface };
+
+const cache = new Map<string, Decoder>();
+
+export function decoderFor(spec: string): Decoder {
+  let d = cache.get(spec);
+  if (!d) {
+    const signature = ABI_VERSIONS[spec] || spec;
+    if (!/^event\s/.test(signature)) throw new Error(`Unknown ABI version "${spec}"`);
+    const iface = new Interface([signature]);
+    let topic0 = '';
+    iface.forEachEvent(ev => { topic0 = ev.topicHash; });
+    d = { spec, topic0, iface };
+    cache.set(spec, d);
+  }
+  return d;
+}
+
+const str = (v: any) => v === undefined || v === null ? '' : String(v);
+
+/** A log the filter matched that didn't make it into the rows, and why. */
+export type SkippedLog = {
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  contract: string;
+  /** `removed`: dropped by a reorg; `unknown_event`: no decoder for its topic0; `undecodable`: its data didn't parse. */
+  reason: 'removed' | 'unknown_event' | 'undecodable';
+  error?: string;
+};
+
+/**
+ * Decodes logs from any of `decoders` (picked by topic0) into one `Row` stream, parsing the
+ * start time and game length on the way. Logs flagged `removed` and logs that don't decode
+ * are handed back in `skipped` instead.
+ */
+export function decodeLogs(logs: any[], decoders: Decoder[]): { rows: Row[]; skipped: SkippedLog[] } {
+  const byTopic = new Map(decoders.map(d => [d.topic0.toLowerCase(), d]));
+  const rows: Row[] = [];
+  const skipped: SkippedLog[] = [];
+  for (const log of logs) {
+    const meta = {
+      blockNumber: parseInt(log.blockNumber, 16),
+      txHash: String(log.transactionHash),
+      logIndex: parseInt(log.logIndex, 16),
+      contract: String(log.address || '').toLowerCase(),
+    };
+    if (log.removed === true) { skipped.push({ ...meta, reason: 'removed' }); continue; }
+    const d = byTopic.get(String(log.topics?.[0] || '').toLowerCase());
+    if (!d) { skipped.push({ ...meta, reason: 'unknown_event' }); continue; }
+    try {
+      const parsed = d.iface.parseLog({ topics: log.topics, data: log.data });
+      if (!parsed) throw new Error('no matching event');
+      const a = parsed.args.toObject();
+      const gameNumber = Number(a.gameNumber?.toString?.() ?? a.gameNumber);
+      if (!Number.isSafeInteger(gameNumber)) throw new Error(`gameNumber ${a.gameNumber} is not a safe integer`);
+      rows.push(typedRow({
+        blockNumber: meta.blockNumber,
+        txHash: meta.txHash,
+        contract: meta.contract,
+        gameNumber,
+        gameId: str(a.gameId),
+        startedAt: str(a.startedAt),
+        winningPlayer: str(a.winningPlayer),
+        winningClasses: str(a.winningClasses),
+        losingPlayer: str(a.losingPlayer),
+        losingClasses: str(a.losingClasses),
+        gameLength: str(a.gameLength),
+        endReason: str(a.endReason),
+      }));
+    } catch (e: any) {
+      skipped.push({ ...meta, reason: 'undecodable', error: e?.shortMessage || e?.message || String(e) });
+    }
+  }
+  return { rows, skipped };
+}
@@ -0,0 +1,58 @@
+import { normName, type Row } from './rows';
+
+/** One person behind several in-game names. `name` is what stats show; it matches too. */
+export type AliasGroup = { name: string; members: string[] };
+
+/** Normalised in-game name → display name of the group it belongs to. */
+export function aliasIndex(groups: AliasGroup[]) {
+  const index = new Map<string, string>();
+  for (const g of groups) {
+    for (const n of [g.name, ...g.members]) index.set(normName(n), g.name);
+  }
+  return index;
+}
+
+/** The name stats know `name` by: its group's name if it has one, else itself. */
+export function canonicalName(index: Map<string, string>, name: string) {
+  return index.get(normName(name)) ?? name;
+}
+
+/**
+ * Rows with every grouped name replaced by its group's name, so all downstream stats,
+ * ratings and filters see one player. Rows are only copied where something changed.
+ */
+export function applyAliases<T extends Row>(rows: T[], groups: AliasGroup[]): T[] {
+  if (!groups.length) return rows;
+  const index = aliasIndex(groups);
+  return rows.map(r => {
+    const w = index.get(normName(r.winningPlayer)), l = index.get(normName(r.losingPlayer));
+    return w || l ? { ...r, winningPlayer: w ?? r.winningPlayer, losingPlayer: l ?? r.losingPlayer } : r;
+  });
+}
+
+/**
+ * Validates a list of alias groups, returning the cleaned-up list or a message per problem:
+ * every group needs a name, and no name may belong to two groups.
+ */
+export function parseAliasGroups(input: unknown): { groups: AliasGroup[]; errors: string[] } {
+  const errors: string[] = [];
+  if (!Array.isArray(input)) return { groups: [], errors: ['Expected a list of alias groups'] };
+  const owner = new Map<string, string>();
+  const groups: AliasGroup[] = [];
+  input.forEach((g: any, i) => {
+    const name = typeof g?.name === 'string' ? g.name.trim() : '';
+    if (!name) { errors.push(`group ${i + 1}: name is required`); return; }
+    if (!Array.isArray(g.members) || g.members.some((m: any) => typeof m !== 'string')) {
+      errors.push(`${name}: members must be a list of names`);
+      return;
+    }
+    const members = Array.from(new Set(g.members.map((m: string) => m.trim()).filter(Boolean))) as string[];
+    for (const n of new Set([normName(name), ...members.map(normName)])) {
+      const other = owner.get(n);
+      if (other) errors.push(`"${n}" is in both ${other} and ${name}`);
+      else owner.set(n, name);
+    }
+    groups.push({ name, members });
+  });
+  return { groups, errors };
+}
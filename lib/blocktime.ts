@@ -0,0 +1,129 @@
+import { getBlock, getEarliest, getLatest, type Block } from './chain';
+import type { RpcPool } from './pool';
+import { hashKey, readJsonFile, writeJsonFile } from './store';
+
+const MAX_CHECKPOINTS = 20_000;
+
+/** Every (block, timestamp) pair we've ever fetched for a chain, sorted by block number. */
+type Checkpoints = { earliest: Block | null; points: Block[] };
+
+const memory = new Map<string, Promise<Checkpoints>>();
+
+function fileName(url: string) { return `blocks-${hashKey(url.trim())}.json`; }
+
+function loadCheckpoints(url: string): Promise<Checkpoints> {
+  // cache the promise, not the value, so concurrent lookups share one object
+  let hit = memory.get(url);
+  if (!hit) {
+    hit = readJsonFile<Checkpoints>(fileName(url)).then(c => {
+      const out = c || { earliest: null, points: [] };
+      if (!Array.isArray(out.points)) out.points = [];
+      return out;
+    });
+    memory.set(url, hit);
+  }
+  return hit;
+}
+
+function insert(c: Checkpoints, b: Block) {
+  const pts = c.points;
+  let lo = 0, hi = pts.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (pts[mid].num < b.num) lo = mid + 1; else hi = mid;
+  }
+  if (pts[lo]?.num === b.num) return;
+  pts.splice(lo, 0, b);
+  if (pts.length > MAX_CHECKPOINTS) c.points = pts.filter((_, i) => i % 2 === 0 || i === pts.length - 1);
+}
+
+/** Tightest known bracket around `target`: the last checkpoint before it and the first at or after it. */
+function bracket(pts: Block[], target: number) {
+  let lo = 0, hi = pts.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (pts[mid].ts < target) lo = mid + 1; else hi = mid;
+  }
+  return { below: pts[lo - 1], above: pts[lo] };
+}
+
+/**
+ * Resolves timestamps to blocks for one RPC pool, cached under the pool's key. `earliest` is
+ * cached for good and `latest` is fetched at most once per resolver, so create one per
+ * request and share it between lookups. Lookups run an interpolation search from the
+ * closest cached checkpoints, so repeated or nearby dates need a few calls or none;
+ * `save()` persists what was learned.
+ */
+export function createBlockResolver(pool: RpcPool) {
+  const url = pool.key;
+  let latestP: Promise<Block> | null = null;
+  let dirty = false;
+
+  const checkpoints = () => loadCheckpoints(url);
+  const remember = (c: Checkpoints, b: Block) => { insert(c, b); dirty = true; return b; };
+
+  async function earliest() {
+    const c = await checkpoints();
+    if (!c.earliest) { c.earliest = remember(c, await getEarliest(pool)); }
+    return c.earliest;
+  }
+
+  async function latest() {
+    if (!latestP) latestP = getLatest(pool).then(async b => remember(await checkpoints(), b));
+    return latestP;
+  }
+
+  /** First block whose timestamp is >= target, given earliest.ts < target <= latest.ts. */
+  async function search(target: number) {
+    const c = await checkpoints();
+    let { below: lo, above: hi } = bracket(c.points, target);
+    let stalled = 0;
+    while (hi.num - lo.num > 1) {
+      const before = hi.num - lo.num;
+      let guess: number;
+      if (stalled >= 2) {
+        guess = lo.num + Math.floor(before / 2);
+        stalled = 0;
+      } else {
+        // aim between the last second before target and target itself, where the boundary is
+        guess = lo.num + Math.round(((target - 0.5 - lo.ts) * before) / Math.max(1, hi.ts - lo.ts));
+      }
+      guess = Math.min(hi.num - 1, Math.max(lo.num + 1, guess));
+      const b = remember(c, await getBlock(pool, guess));
+      if (b.ts < target) lo = b; else hi = b;
+      stalled = hi.num - lo.num > before / 2 ? stalled + 1 : 0;
+    }
+    return hi.num;
+  }
+
+  async function atOrAfter(targetTs: number) {
+    const [first, last] = await Promise.all([earliest(), latest()]);
+    if (targetTs <= first.ts) return first.num;
+    if (targetTs > last.ts) return last.num;
+    return search(targetTs);
+  }
+
+  async function atOrBefore(targetTs: number) {
+    const [first, last] = await Promise.all([earliest(), latest()]);
+    if (targetTs < first.ts) return first.num;
+    if (targetTs >= last.ts) return last.num;
+    // timestamps are whole seconds: the last block <= t sits right before the first block >= t + 1
+    return (await search(targetTs + 1)) - 1;
+  }
+
+  /** Never throws: the checkpoints are only a cache, so a failed write shouldn't fail the query. */
+  async function save() {
+    if (!dirty) return;
+    dirty = false;
+    try {
+      await writeJsonFile(fileName(url), await checkpoints());
+    } catch (e: any) {
+      dirty = true;
+      console.warn(`Could not save block checkpoints: ${e?.message || e}`);
+    }
+  }
+
+  return { earliest, latest, atOrAfter, atOrBefore, save };
+}
+
+export type BlockResolver = ReturnType<typeof createBlockResolver>;
@@ -0,0 +1,227 @@
+import { available, failed, pick, started, succeeded, type RpcPool } from './pool';
+
+/** Starting and maximum eth_getLogs span; shrinks per RPC URL when a provider rejects it. */
+export const MAX_SPAN = 100_000;
+/** Starting number of eth_getLogs calls per JSON-RPC batch; adapts per RPC URL. */
+export const BATCH = 8;
+const MAX_BATCH = 32;
+const FAST_MS = 1_000;
+const SLOW_MS = 4_000;
+
+export function toHex(n: number) { return '0x' + n.toString(16); }
+
+export class RpcError extends Error {
+  /** The endpoint that answered with this error, when there was one. */
+  url?: string;
+  constructor(message: string, readonly code?: number, readonly status?: number) { super(message); }
+}
+
+// no bare "429": block numbers, hashes and sizes in other errors contain it too
+const RATE_LIMITED = /rate.?limit|too many requests|throttl|\bHTTP 429\b/i;
+const RANGE_TOO_LARGE = [
+  /query returned more than/i,
+  /too many (results|logs|blocks)/i,
+  /range (is )?too (large|wide|big)/i,
+  /exceed(s|ed)? (the )?(max(imum)? )?(block )?range/i,
+  /max(imum)? (block )?range/i,
+  /limited to (a )?[\d,]+ blocks?/i,
+  /response (size|is too (big|large))/i,
+];
+
+export function isRateLimited(e: any) {
+  return e?.status === 429 || e?.code === 429 || RATE_LIMITED.test(String(e?.message || ''));
+}
+
+/** Errors a provider returns when an eth_getLogs range should be split rather than retried. */
+export function isRangeTooLarge(e: any) {
+  if (isRateLimited(e)) return false;
+  const msg = String(e?.message || '');
+  return RANGE_TOO_LARGE.some(re => re.test(msg)) || (e?.code === -32005 && !msg);
+}
+
+/**
+ * JSON-RPC call through a pool with retries. Each attempt goes to the healthiest endpoint
+ * (`prefer` first, if its circuit is closed) and a failed attempt fails over to another one,
+ * backing off only when there is nowhere else to go. Range-too-large errors are never
+ * retried: a single call throws immediately and a batch hands them back in place so the
+ * caller can split those ranges.
+ */
+export async function send(pool: RpcPool, body: any, prefer?: string, attempts = 5, baseDelay = 200): Promise<{ j: any; url: string }> {
+  let lastErr: any = null;
+  const failedUrls: string[] = [];
+  for (let i=0;i<attempts;i++) {
+    const url = i === 0 && prefer && available(pool).includes(prefer) ? prefer : pick(pool, failedUrls);
+    const t0 = Date.now();
+    started(url);
+    try {
+      const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      if (!res.ok) {
+        if (res.status === 429 || (res.status >= 500 && res.status < 600)) throw new RpcError(`RPC HTTP ${res.status}`, undefined, res.status);
+      }
+      const j = await res.json();
+      if (Array.isArray(j)) {
+        const errs = j.filter((x:any) => x && x.error).map((x:any) => new RpcError(x.error?.message || 'RPC batch error', x.error?.code));
+        const fatal = errs.find(e => !isRangeTooLarge(e));
+        if (fatal) throw fatal;
+      } else if (j && j.error) {
+        throw new RpcError(j.error?.message || 'RPC error', j.error?.code);
+      }
+      succeeded(url, Date.now() - t0);
+      return { j, url };
+    } catch (e:any) {
+      lastErr = e;
+      if (e instanceof RpcError) e.url = url;
+      if (isRangeTooLarge(e)) { succeeded(url, Date.now() - t0); throw e; }
+      const limited = isRateLimited(e);
+      failed(url, limited);
+      if (limited) throttled(url);
+      if (!failedUrls.includes(url)) failedUrls.push(url);
+      if (failedUrls.includes(pick(pool, failedUrls))) {
+        const delay = Math.round(baseDelay * Math.pow(1.6, i) + Math.random()*120);
+        await new Promise(r => setTimeout(r, delay));
+      }
+    }
+  }
+  throw lastErr instanceof RpcError ? lastErr : new RpcError(lastErr?.message || 'RPC failed after retries');
+}
+
+export async function rpc(pool: RpcPool, body: any) { return (await send(pool, body)).j; }
+
+/**
+ * What each RPC URL has taught us about eth_getLogs: `ok` is the largest span known to work,
+ * `ceiling` the smallest one rejected. Between the two the span is binary-searched upwards.
+ */
+type Tuning = { span: number; ok: number; ceiling: number; batch: number };
+const tuning = new Map<string, Tuning>();
+
+export function tuningFor(url: string): Tuning {
+  let t = tuning.get(url);
+  if (!t) { t = { span: MAX_SPAN, ok: 0, ceiling: Infinity, batch: BATCH }; tuning.set(url, t); }
+  return t;
+}
+
+function throttled(url: string) {
+  const t = tuningFor(url);
+  t.batch = Math.max(1, Math.floor(t.batch / 2));
+}
+
+function rejectedSpan(url: string, span: number) {
+  const t = tuningFor(url);
+  t.ceiling = Math.min(t.ceiling, span);
+  if (t.ok >= t.ceiling) t.ok = 0;
+  t.span = Math.max(1, t.ok, Math.floor(span / 2));
+}
+
+function batchSucceeded(url: string, span: number, ms: number) {
+  const t = tuningFor(url);
+  if (ms > SLOW_MS) t.batch = Math.max(1, t.batch - 1);
+  else if (ms < FAST_MS) t.batch = Math.min(MAX_BATCH, t.batch + 1);
+  t.ok = Math.max(t.ok, span);
+  if (t.ceiling === Infinity) return;
+  // close enough to the rejected span: stop probing
+  t.span = t.ceiling - t.ok <= t.ceiling * 0.02 ? t.ok : Math.floor((t.ok + t.ceiling) / 2);
+}
+
+export type Block = { num: number; ts: number };
+
+async function getBlockByTag(pool: RpcPool, tag: string): Promise<Block> {
+  const j = await rpc(pool, { jsonrpc: '2.0', id: 1, method: 'eth_getBlockByNumber', params: [tag, false] });
+  const blk = j?.result;
+  if (!blk) throw new RpcError('Block not found');
+  return { num: parseInt(blk.number, 16), ts: parseInt(blk.timestamp, 16) };
+}
+export async function getBlock(pool: RpcPool, n: number) { return getBlockByTag(pool, toHex(n)); }
+export async function getEarliest(pool: RpcPool) { return getBlockByTag(pool, 'earliest'); }
+export async function getLatest(pool: RpcPool) { return getBlockByTag(pool, 'latest'); }
+
+export function buildRanges(fromBlock: number, toBlock: number, span = MAX_SPAN) {
+  const ranges: Array<{ from: number; to: number }> = [];
+  let s = fromBlock;
+  while (s <= toBlock) {
+    const e = Math.min(s + span - 1, toBlock);
+    ranges.push({ from: s, to: e });
+    s = e + 1;
+  }
+  return ranges;
+}
+
+/** Which logs to fetch: any of `addresses` emitting an event whose topic0 is any of `topics`. */
+export type LogFilter = { addresses: string[]; topics: string[] };
+
+function getLogsCall(filter: LogFilter, from: number, to: number, id: number) {
+  const params = { fromBlock: toHex(from), toBlock: toHex(to), address: filter.addresses, topics: [filter.topics] };
+  return { jsonrpc: '2.0', id, method: 'eth_getLogs', params: [params] };
+}
+
+/** One range on its own, bisected recursively for as long as the provider says it is too large. */
+async function fetchRange(pool: RpcPool, url: string, filter: LogFilter, from: number, to: number): Promise<any[]> {
+  try {
+    const { j } = await send(pool, getLogsCall(filter, from, to, 1), url);
+    return Array.isArray(j?.result) ? j.result : [];
+  } catch (e) {
+    if (!isRangeTooLarge(e) || from === to) throw e;
+    const served = (e as RpcError).url || url;
+    rejectedSpan(served, to - from + 1);
+    const mid = from + Math.floor((to - from) / 2);
+    return [...await fetchRange(pool, served, filter, from, mid), ...await fetchRange(pool, served, filter, mid + 1, to)];
+  }
+}
+
+export type LogBatch = { from: number; to: number; logs: any[] };
+
+/** One batch of eth_getLogs calls covering [from, to], started on `url` but free to fail over. */
+async function fetchWindow(pool: RpcPool, url: string, filter: LogFilter, from: number, to: number, span: number): Promise<LogBatch> {
+  const ranges = buildRanges(from, to, span);
+  const t0 = Date.now();
+  let served = url;
+  let results: any[][] = [];
+  try {
+    const sent = await send(pool, ranges.map((r, idx) => getLogsCall(filter, r.from, r.to, idx + 100)), url);
+    served = sent.url;
+    const byId = new Map<number, any>((Array.isArray(sent.j) ? sent.j : []).map((x: any) => [Number(x?.id), x]));
+    for (const [idx, r] of ranges.entries()) {
+      const item = byId.get(idx + 100);
+      results.push(Array.isArray(item?.result) ? item.result : await fetchRange(pool, served, filter, r.from, r.to));
+    }
+  } catch (e) {
+    // some providers reject the whole batch when one range is too large
+    if (!isRangeTooLarge(e)) throw e;
+    results = [];
+    for (const r of ranges) results.push(await fetchRange(pool, served, filter, r.from, r.to));
+  }
+  batchSucceeded(served, Math.min(span, tuningFor(served).span), Date.now() - t0);
+
+  const uniq = new Map<string, any>();
+  for (const list of results) {
+    for (const log of list) uniq.set(`${log.transactionHash}-${parseInt(log.logIndex, 16)}`, log);
+  }
+  return { from, to, logs: Array.from(uniq.values()) };
+}
+
+/**
+ * Fetches every log matching `filter` in [fromBlock, toBlock], deduped by tx hash + log index.
+ * Windows are fetched in parallel, one per available endpoint in the pool, but `onBatch`
+ * sees them strictly in ascending block order as soon as each one (and all before it) lands.
+ * Span and batch size start at MAX_SPAN / BATCH and adapt to what each endpoint accepts.
+ */
+export async function fetchLogs(pool: RpcPool, filter: LogFilter, fromBlock: number, toBlock: number, onBatch?: (b: LogBatch) => void | Promise<void>) {
+  const allLogs: any[] = [];
+  const queue: Array<Promise<LogBatch>> = [];
+  const parallel = Math.max(1, available(pool).length);
+  let cursor = fromBlock;
+  while (cursor <= toBlock || queue.length) {
+    while (cursor <= toBlock && queue.length < parallel) {
+      const url = pick(pool);
+      const t = tuningFor(url);
+      const to = Math.min(toBlock, cursor + t.span * t.batch - 1);
+      const p = fetchWindow(pool, url, filter, cursor, to, t.span);
+      p.catch(() => {}); // awaited in order below; don't let a later window's failure go unhandled meanwhile
+      queue.push(p);
+      cursor = to + 1;
+    }
+    const b = await queue.shift()!;
+    allLogs.push(...b.logs);
+    await onBatch?.(b);
+  }
+  return allLogs;
+}
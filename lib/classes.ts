@@ -0,0 +1,93 @@
+import { normName, type Row } from './rows';
+
+/**
+ * Splits a `winningClasses` / `losingClasses` string into class names. The contract stores
+ * free-form strings, so accept a JSON array as well as comma, slash, pipe, plus or
+ * semicolon separated lists.
+ */
+export function parseClasses(s?: string): string[] {
+  const raw = (s || '').trim();
+  if (!raw) return [];
+  let parts: string[] | null = null;
+  if (raw.startsWith('[')) {
+    try {
+      const j = JSON.parse(raw);
+      if (Array.isArray(j)) parts = j.map(x => String(x));
+    } catch {}
+  }
+  if (!parts) parts = raw.split(/[,/|;+&]/);
+  return Array.from(new Set(parts.map(p => p.trim()).filter(Boolean)));
+}
+
+/** Canonical key for a class combination, independent of the order the classes were listed in. */
+export function comboKey(classes: string[]) {
+  return [...classes].sort((a, b) => a.localeCompare(b)).join(' + ');
+}
+
+export type Tally = { key: string; games: number; wins: number; losses: number; winrate: number };
+
+function tally(map: Map<string, Tally>, key: string, won: boolean) {
+  let t = map.get(key);
+  if (!t) { t = { key, games: 0, wins: 0, losses: 0, winrate: 0 }; map.set(key, t); }
+  t.games++;
+  if (won) t.wins++; else t.losses++;
+  t.winrate = t.wins / t.games;
+}
+
+function sorted(map: Map<string, Tally>) {
+  return Array.from(map.values()).sort((a, b) => b.games - a.games || b.winrate - a.winrate);
+}
+
+/** Win rate per class and per class combination for one player. */
+export function playerClassStats(rows: Row[], player: string) {
+  const p = normName(player);
+  const byClass = new Map<string, Tally>();
+  const byCombo = new Map<string, Tally>();
+  for (const r of rows) {
+    const won = normName(r.winningPlayer) === p;
+    if (!won && normName(r.losingPlayer) !== p) continue;
+    const classes = parseClasses(won ? r.winningClasses : r.losingClasses);
+    if (!classes.length) continue;
+    for (const c of classes) tally(byClass, c, won);
+    tally(byCombo, comboKey(classes), won);
+  }
+  return { byClass: sorted(byClass), byCombo: sorted(byCombo) };
+}
+
+export type MatchupCell = { games: number; wins: number };
+
+/**
+ * Class-vs-class results across all games. `cells[a][b]` counts games where a side fielding
+ * class `a` met a side fielding class `b`, with `wins` from `a`'s point of view.
+ */
+export function matchupMatrix(rows: Row[]) {
+  const cells: Record<string, Record<string, MatchupCell>> = {};
+  const totals = new Map<string, number>();
+  const bump = (a: string, b: string, won: boolean) => {
+    const row = cells[a] || (cells[a] = {});
+    const cell = row[b] || (row[b] = { games: 0, wins: 0 });
+    cell.games++;
+    if (won) cell.wins++;
+  };
+  for (const r of rows) {
+    const w = parseClasses(r.winningClasses), l = parseClasses(r.losingClasses);
+    for (const c of w) totals.set(c, (totals.get(c) || 0) + 1);
+    for (const c of l) totals.set(c, (totals.get(c) || 0) + 1);
+    for (const a of w) for (const b of l) { bump(a, b, true); bump(b, a, false); }
+  }
+  const classes = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).map(([c]) => c);
+  return { classes, cells };
+}
+
+/** Every class combination fielded in any game, ranked by popularity and by win rate. */
+export function comboStats(rows: Row[], minGames = 5) {
+  const byCombo = new Map<string, Tally>();
+  for (const r of rows) {
+    const w = parseClasses(r.winningClasses), l = parseClasses(r.losingClasses);
+    if (w.length) tally(byCombo, comboKey(w), true);
+    if (l.length) tally(byCombo, comboKey(l), false);
+  }
+  const all = sorted(byCombo);
+  const best = all.filter(t => t.games >= minGames).sort((a, b) => b.winrate - a.winrate || b.games - a.games);
+  return { mostPlayed: all, best, minGames };
+}
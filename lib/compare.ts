@@ -0,0 +1,50 @@
+import { playerClassStats } from './classes';
+import { normName, playerMatches, rowTime, type Row } from './rows';
+import { streaks, type Streak } from './timeseries';
+
+export type PlayerSummary = {
+  name: string;
+  games: number;
+  wins: number;
+  losses: number;
+  winrate: number;
+  current: Streak | null;
+  longestWin: Streak | null;
+  /** most played class combination, if any game listed classes */
+  topCombo: string | null;
+  /** epoch ms of the most recent game, null when no game had a parseable `startedAt` */
+  lastPlayed: number | null;
+};
+
+export function playerSummary(rows: Row[], name: string): PlayerSummary {
+  const matches = playerMatches(rows, name);
+  const wins = matches.filter(m => m.result === 'W').length;
+  const { current, longestWin } = streaks(matches);
+  let lastPlayed: number | null = null;
+  for (const m of matches) {
+    const t = rowTime(m);
+    if (t !== null && (lastPlayed === null || t > lastPlayed)) lastPlayed = t;
+  }
+  return {
+    name,
+    games: matches.length,
+    wins,
+    losses: matches.length - wins,
+    winrate: matches.length ? wins / matches.length : 0,
+    current,
+    longestWin,
+    topCombo: playerClassStats(rows, name).byCombo[0]?.key ?? null,
+    lastPlayed,
+  };
+}
+
+/** `wins[i][j]`: how many times `names[i]` beat `names[j]`. */
+export function headToHead(rows: Row[], names: string[]) {
+  const idx = new Map(names.map((n, i) => [normName(n), i]));
+  const wins = names.map(() => names.map(() => 0));
+  for (const r of rows) {
+    const w = idx.get(normName(r.winningPlayer)), l = idx.get(normName(r.losingPlayer));
+    if (w !== undefined && l !== undefined && w !== l) wins[w][l]++;
+  }
+  return wins;
+}
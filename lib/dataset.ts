@@ -0,0 +1,62 @@
+import { chainOrder, typedRow, type RawRow, type Row } from './rows';
+
+const NUMBER_FIELDS = ['blockNumber', 'gameNumber'] as const;
+const STRING_FIELDS = [
+  'txHash', 'gameId', 'startedAt', 'winningPlayer', 'winningClasses',
+  'losingPlayer', 'losingClasses', 'gameLength', 'endReason',
+] as const;
+
+/**
+ * Checks one entry against the `Row` shape, dropping extra fields such as `result`/`opponent`.
+ * The parsed fields are recomputed, so files exported before they existed import the same.
+ */
+function toRow(x: any): Row | string {
+  if (!x || typeof x !== 'object' || Array.isArray(x)) return 'not an object';
+  const out: any = {};
+  for (const f of NUMBER_FIELDS) {
+    const v = typeof x[f] === 'string' && x[f].trim() !== '' ? Number(x[f]) : x[f];
+    if (typeof v !== 'number' || !Number.isFinite(v)) return `${f} must be a number`;
+    out[f] = v;
+  }
+  for (const f of STRING_FIELDS) {
+    if (typeof x[f] !== 'string') return `${f} must be a string`;
+    out[f] = x[f];
+  }
+  if (!/^0x[0-9a-fA-F]+$/.test(out.txHash)) return 'txHash is not a hex hash';
+  out.contract = typeof x.contract === 'string' ? x.contract.toLowerCase() : '';
+  return typedRow(out as RawRow);
+}
+
+export type ImportResult = { rows: Row[]; skipped: number; errors: string[] };
+
+/**
+ * Validates a previously exported results file (`showdown_winrate_results.json` or a
+ * per-player matches export). Invalid entries are skipped and described in `errors`.
+ */
+export function parseExport(text: string, source: string): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${source}: not valid JSON`);
+  }
+  const list = Array.isArray(data) ? data : (data as any)?.rows;
+  if (!Array.isArray(list)) throw new Error(`${source}: expected an array of rows`);
+  const rows: Row[] = [];
+  const errors: string[] = [];
+  list.forEach((x, i) => {
+    const r = toRow(x);
+    if (typeof r === 'string') errors.push(`${source} [${i}]: ${r}`);
+    else rows.push(r);
+  });
+  return { rows, skipped: errors.length, errors };
+}
+
+export function rowKey(r: Pick<Row, 'txHash' | 'gameNumber'>) { return `${r.txHash.toLowerCase()}-${r.gameNumber}`; }
+
+/** Union of several row lists, deduped by tx hash + game number and put back in chain order. */
+export function mergeRows(...lists: Row[][]): Row[] {
+  const by = new Map<string, Row>();
+  for (const list of lists) for (const r of list) by.set(rowKey(r), r);
+  return Array.from(by.values()).sort(chainOrder);
+}
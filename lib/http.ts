@@ -0,0 +1,121 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { RpcError } from './chain';
+
+/** An error with an HTTP status that API routes report as `{ ok: false, error, code }`. */
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string, readonly details?: unknown) { super(message); }
+}
+
+export const badRequest = (message: string, details?: unknown) => new ApiError(400, 'invalid_request', message, details);
+
+const RATE_PER_MIN = Number(process.env.RATE_LIMIT_PER_MIN) || 30;
+const MAX_PER_CLIENT = Number(process.env.MAX_CONCURRENT_PER_CLIENT) || 2;
+const MAX_TOTAL = Number(process.env.MAX_CONCURRENT) || 8;
+
+type Bucket = { tokens: number; at: number; active: number };
+const clients = new Map<string, Bucket>();
+let active = 0;
+
+/** Set when a reverse proxy (Vercel, nginx, …) fronts the app and appends the client's address to X-Forwarded-For. */
+const TRUST_PROXY = /^(1|true|yes)$/i.test(process.env.TRUST_PROXY || '');
+
+/**
+ * Who a request counts against for the limits. Only the last X-Forwarded-For hop, the one
+ * the trusted proxy appended, is believed; anything before it is whatever the client sent.
+ */
+export function clientId(req: IncomingMessage) {
+  if (TRUST_PROXY) {
+    const fwd = req.headers['x-forwarded-for'];
+    const hops = (Array.isArray(fwd) ? fwd.join(',') : fwd || '').split(',').map(x => x.trim()).filter(Boolean);
+    if (hops.length) return hops[hops.length - 1];
+  }
+  return req.socket?.remoteAddress || 'unknown';
+}
+
+/** Public origin of the site (`https://stats.example`), for absolute links that end up in shared caches. */
+const SITE_URL = (process.env.SITE_URL || '').replace(/\/+$/, '');
+
+/**
+ * Absolute URL of `path` on this site. Without SITE_URL it is built from the Host
+ * header, which the client chooses, so `trusted` is false and the answer mustn't be
+ * cached where other clients would get it.
+ */
+export function pageUrl(req: IncomingMessage, path: string): { url: string; trusted: boolean } {
+  if (SITE_URL) return { url: `${SITE_URL}${path}`, trusted: true };
+  const proto = String(req.headers['x-forwarded-proto'] || 'http').split(',')[0];
+  return { url: `${proto}://${req.headers.host}${path}`, trusted: false };
+}
+
+/** Token bucket per client (RATE_PER_MIN requests per minute, bursting to the same) plus concurrency caps. */
+function acquire(id: string, res: ServerResponse) {
+  const now = Date.now();
+  let b = clients.get(id);
+  if (!b) { b = { tokens: RATE_PER_MIN, at: now, active: 0 }; clients.set(id, b); }
+  b.tokens = Math.min(RATE_PER_MIN, b.tokens + ((now - b.at) / 60_000) * RATE_PER_MIN);
+  b.at = now;
+  if (b.tokens < 1) {
+    res.setHeader('Retry-After', String(Math.ceil(((1 - b.tokens) * 60) / RATE_PER_MIN)));
+    throw new ApiError(429, 'rate_limited', 'Too many requests, slow down a little.');
+  }
+  if (b.active >= MAX_PER_CLIENT) throw new ApiError(429, 'too_many_concurrent', `At most ${MAX_PER_CLIENT} queries at a time per client.`);
+  if (active >= MAX_TOTAL) {
+    res.setHeader('Retry-After', '5');
+    throw new ApiError(503, 'busy', 'Server is busy with other queries, try again shortly.');
+  }
+  b.tokens -= 1;
+  b.active++; active++;
+  const bucket = b;
+  return () => { bucket.active--; active--; };
+}
+
+// forget idle clients now and then so the map doesn't grow forever
+setInterval(() => {
+  const cutoff = Date.now() - 10 * 60_000;
+  for (const [id, b] of clients) if (!b.active && b.at < cutoff) clients.delete(id);
+}, 60_000).unref?.();
+
+/** Runs `fn` under the same per-client limits as the API routes; for server-rendered pages that query the chain. */
+export async function withLimits<T>(req: IncomingMessage, res: ServerResponse, fn: () => Promise<T>): Promise<T> {
+  const release = acquire(clientId(req), res);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+/** Any thrown value as an ApiError: RPC failures are upstream errors (502), the rest internal (500). */
+export function toApiError(e: any): ApiError {
+  return e instanceof ApiError ? e
+    : e instanceof RpcError ? new ApiError(502, 'upstream_error', e.message)
+    : new ApiError(500, 'internal_error', e?.message || String(e));
+}
+
+export function sendError(res: NextApiResponse, e: any) {
+  const err = toApiError(e);
+  if (res.headersSent) return res.end();
+  res.status(err.status).json({ ok: false, error: err.message, code: err.code, ...(err.details ? { details: err.details } : {}) });
+}
+
+/**
+ * Wraps an API route: method check, per-client rate limit and concurrency caps, and
+ * structured errors with real HTTP status codes.
+ */
+export function apiHandler(methods: string[], fn: (req: NextApiRequest, res: NextApiResponse) => Promise<unknown>) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    let release: (() => void) | null = null;
+    try {
+      if (!methods.includes(req.method || 'GET')) {
+        res.setHeader('Allow', methods.join(', '));
+        throw new ApiError(405, 'method_not_allowed', `Use ${methods.join(' or ')}.`);
+      }
+      release = acquire(clientId(req), res);
+      await fn(req, res);
+    } catch (e) {
+      sendError(res, e);
+    } finally {
+      release?.();
+    }
+  };
+}
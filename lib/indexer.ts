@@ -0,0 +1,214 @@
+import { decodeLogs, type SkippedLog } from './abi';
+import { createBlockResolver } from './blocktime';
+import { fetchLogs, type LogBatch } from './chain';
+import { capWarnings, sequenceIssues, skippedWarnings, type DataWarning } from './integrity';
+import type { Source } from './profiles';
+import { loadSnapshot, saveSnapshot, withIndexLock, type Snapshot } from './store';
+import type { Row } from './rows';
+
+/** Progress reported while a query runs; the streaming API forwards these to the client as-is. */
+export type QueryEvent =
+  | { type: 'resolving'; what: 'start' | 'end' }
+  | { type: 'blocks'; fromBlock: number; toBlock: number }
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'rows'; rows: Row[] }
+  | { type: 'rechecking'; ranges: number }
+  /** The rows in [fromBlock, toBlock] are exactly `rows`, replacing any sent before. */
+  | { type: 'replace'; fromBlock: number; toBlock: number; rows: Row[] }
+  | { type: 'warnings'; warnings: DataWarning[] };
+
+type Emit = (e: QueryEvent) => void;
+
+/**
+ * Decodes a batch of logs. If any had to be skipped, the batch is fetched once more and
+ * that answer is used instead: a removed log means the chain reorganised under the
+ * provider, and a garbled one may be a bad response rather than a bad event.
+ */
+async function decodeBatch(source: Source, b: LogBatch) {
+  const first = decodeLogs(b.logs, source.decoders);
+  if (!first.skipped.length) return first;
+  return decodeLogs(await fetchLogs(source.pool, source, b.from, b.to), source.decoders);
+}
+
+/**
+ * Makes sure the local index covers [fromBlock, toBlock], fetching only the blocks it
+ * hasn't seen: a head segment before the indexed range and/or the new tail after it.
+ * Rows in the range are emitted as they become available, cached ones first. If a fetch
+ * fails midway, whatever contiguous tail was already fetched is kept in the index. Logs
+ * that still can't be used after a second fetch are recorded in the snapshot's `skipped`.
+ */
+export async function syncIndex(source: Source, fromBlock: number, toBlock: number, emit?: Emit): Promise<Snapshot> {
+  const { key, pool } = source;
+  return withIndexLock(key, async () => {
+    const snap = await loadSnapshot(key);
+    const inRange = (r: Row) => r.blockNumber >= fromBlock && r.blockNumber <= toBlock;
+    const segments: Array<{ from: number; to: number; head: boolean }> = [];
+    if (!snap) {
+      segments.push({ from: fromBlock, to: toBlock, head: false });
+    } else {
+      const cached = snap.rows.filter(inRange);
+      if (cached.length) emit?.({ type: 'rows', rows: cached });
+      if (fromBlock < snap.fromBlock) segments.push({ from: fromBlock, to: snap.fromBlock - 1, head: true });
+      if (toBlock > snap.syncedBlock) segments.push({ from: snap.syncedBlock + 1, to: toBlock, head: false });
+    }
+    if (!segments.length) return snap!;
+
+    const state = {
+      key,
+      fromBlock: snap ? snap.fromBlock : fromBlock,
+      syncedBlock: snap ? snap.syncedBlock : fromBlock - 1,
+      rows: snap ? [...snap.rows] : [],
+      skipped: snap ? [...snap.skipped] : [],
+      rechecked: snap ? snap.rechecked : [],
+    };
+    const total = segments.reduce((n, s) => n + s.to - s.from + 1, 0);
+    let done = 0, dirty = false;
+    emit?.({ type: 'progress', done, total });
+
+    try {
+      for (const seg of segments) {
+        const head: Row[] = [], headSkipped: SkippedLog[] = [];
+        await fetchLogs(pool, source, seg.from, seg.to, async b => {
+          const { rows, skipped } = await decodeBatch(source, b);
+          if (seg.head) {
+            head.push(...rows);
+            headSkipped.push(...skipped);
+          } else {
+            state.rows.push(...rows);
+            state.skipped.push(...skipped);
+            state.syncedBlock = b.to;
+            dirty = true;
+          }
+          done += b.to - b.from + 1;
+          // the tail can start before fromBlock and the head run past toBlock
+          const shown = rows.filter(inRange);
+          if (shown.length) emit?.({ type: 'rows', rows: shown });
+          emit?.({ type: 'progress', done, total });
+        });
+        if (seg.head) {
+          state.rows = [...head, ...state.rows];
+          state.skipped = [...headSkipped, ...state.skipped];
+          state.fromBlock = seg.from;
+          dirty = true;
+        }
+      }
+    } catch (e) {
+      if (dirty) await saveSnapshot(state);
+      throw e;
+    }
+    return saveSnapshot(state);
+  });
+}
+
+/** Most suspicious ranges fetched again per query; the rest are only reported. */
+const MAX_RECHECKS = 5;
+
+type BlockRange = { from: number; to: number };
+const rangeKey = (r: BlockRange) => `${r.from}-${r.to}`;
+
+/**
+ * Fetches `ranges` again and makes the index agree with the new answer there: games it no
+ * longer returns (reorged away) are dropped, ones it adds (missing from an incomplete
+ * answer) are kept. Each range is marked as rechecked, even when it still looks wrong.
+ */
+async function recheck(source: Source, ranges: BlockRange[], emit?: Emit): Promise<Snapshot> {
+  return withIndexLock(source.key, async () => {
+    const snap = (await loadSnapshot(source.key))!;
+    let rows = snap.rows, skipped = snap.skipped;
+    const done: string[] = [];
+    emit?.({ type: 'rechecking', ranges: ranges.length });
+    for (const r of ranges) {
+      let fresh;
+      try {
+        fresh = decodeLogs(await fetchLogs(source.pool, source, r.from, r.to), source.decoders);
+      } catch {
+        continue; // try again next time
+      }
+      const outside = (x: { blockNumber: number }) => x.blockNumber < r.from || x.blockNumber > r.to;
+      rows = [...rows.filter(outside), ...fresh.rows].sort((a, b) => a.blockNumber - b.blockNumber);
+      skipped = [...skipped.filter(outside), ...fresh.skipped];
+      done.push(rangeKey(r));
+      emit?.({ type: 'replace', fromBlock: r.from, toBlock: r.to, rows: fresh.rows });
+    }
+    if (!done.length) return snap;
+    return saveSnapshot({ ...snap, rows, skipped, rechecked: [...snap.rechecked, ...done] });
+  });
+}
+
+/** Overlapping or touching ranges joined, in block order. */
+function mergeRanges(ranges: BlockRange[]) {
+  const out: BlockRange[] = [];
+  for (const r of [...ranges].sort((a, b) => a.from - b.from)) {
+    const last = out[out.length - 1];
+    if (last && r.from <= last.to + 1) last.to = Math.max(last.to, r.to);
+    else out.push({ ...r });
+  }
+  return out;
+}
+
+export type RowQuery = { source: Source; startTs?: number; endTs?: number };
+
+/** The games in a range, plus whatever about them still looked wrong after fetching it again. */
+export type QueryResult = { rows: Row[]; warnings: DataWarning[] };
+
+/**
+ * Games are logged when they end, so one that started just before the end of a range can
+ * land in a block up to a game's length later; the block range reaches this far past it.
+ */
+const END_SLACK_SEC = 2 * 3600;
+
+/**
+ * Resolves the date range to blocks, syncs the index over it and answers from the index.
+ * The range applies to when games started (`startedTs`), falling back to the block time
+ * for games whose start can't be read. Nothing before the contracts' deployment block is
+ * fetched, whatever the start date.
+ *
+ * The games in the block range are then checked for gaps and repeats in the game numbers
+ * and repeated game ids; the blocks around each one are fetched again once, in case a
+ * provider answered with an incomplete chunk or from a chain that has since reorganised.
+ * Whatever is left, and any logs that couldn't be used, come back as `warnings`.
+ */
+export async function queryRows({ source, startTs, endTs }: RowQuery, emit?: Emit): Promise<QueryResult> {
+  const hasStart = typeof startTs === 'number' && startTs > 0;
+  const hasEnd = typeof endTs === 'number' && endTs > 0;
+  const blocks = createBlockResolver(source.pool);
+  emit?.({ type: 'resolving', what: 'start' });
+  const startBlock = hasStart ? await blocks.atOrAfter(startTs) : (await blocks.earliest()).num;
+  const fromBlock = Math.max(startBlock, source.deployBlock ?? 0);
+  emit?.({ type: 'resolving', what: 'end' });
+  const endBlock = hasEnd ? await blocks.atOrBefore(endTs) : (await blocks.latest()).num;
+  const toBlock = hasEnd ? await blocks.atOrBefore(endTs + END_SLACK_SEC) : endBlock;
+  await blocks.save();
+  emit?.({ type: 'blocks', fromBlock, toBlock });
+  if (toBlock < fromBlock) {
+    emit?.({ type: 'warnings', warnings: [] });
+    return { rows: [], warnings: [] };
+  }
+
+  const inBlocks = (r: Row) => r.blockNumber >= fromBlock && r.blockNumber <= toBlock;
+  const inRange = (r: Row) => inBlocks(r) && (r.startedTs === null
+    ? r.blockNumber <= endBlock
+    : (!hasStart || r.startedTs >= startTs!) && (!hasEnd || r.startedTs <= endTs!));
+  const forward: Emit | undefined = emit && (e => {
+    if (e.type === 'replace') return emit({ ...e, rows: e.rows.filter(inRange) });
+    if (e.type !== 'rows') return emit(e);
+    const rows = e.rows.filter(inRange);
+    if (rows.length) emit({ type: 'rows', rows });
+  });
+  let snap = await syncIndex(source, fromBlock, toBlock, forward);
+  // checked over the whole block range: a game that started just outside the dates is a
+  // neighbour in game-number order, and leaving it out first would look like a gap
+  let issues = sequenceIssues(snap.rows.filter(inBlocks));
+  const suspects = mergeRanges(issues.map(w => ({ from: w.fromBlock, to: w.toBlock })))
+    .filter(r => !snap.rechecked.includes(rangeKey(r)))
+    .slice(0, MAX_RECHECKS);
+  if (suspects.length) {
+    snap = await recheck(source, suspects, forward);
+    issues = sequenceIssues(snap.rows.filter(inBlocks));
+  }
+  const rows = snap.rows.filter(inRange);
+  const skipped = snap.skipped.filter(s => s.blockNumber >= fromBlock && s.blockNumber <= toBlock);
+  const warnings = capWarnings([...skippedWarnings(skipped), ...issues]);
+  emit?.({ type: 'warnings', warnings });
+  return { rows, warnings };
+}
@@ -0,0 +1,114 @@
+import type { SkippedLog } from './abi';
+import type { Row } from './rows';
+
+/** Most warnings of each kind listed one by one; the rest are summed up in one more. */
+const MAX_PER_KIND = 10;
+
+/** Something about the data in a range that couldn't be resolved by fetching it again. */
+export type DataWarning = {
+  kind: 'removed_logs' | 'unknown_event' | 'undecodable' | 'game_number_gap' | 'duplicate_game_number' | 'duplicate_game_id';
+  message: string;
+  fromBlock: number;
+  toBlock: number;
+};
+
+const SKIP_TEXT: Record<SkippedLog['reason'], string> = {
+  removed: 'flagged as removed by a reorg',
+  unknown_event: 'with an event signature no configured ABI version matches',
+  undecodable: 'that could not be decoded',
+};
+
+const plural = (n: number, one: string, many = `${one}s`) => `${n} ${n === 1 ? one : many}`;
+const span = (from: number, to: number) => from === to ? `block ${from}` : `blocks ${from}–${to}`;
+
+function groupBy<T, K>(list: T[], key: (x: T) => K) {
+  const by = new Map<K, T[]>();
+  for (const x of list) {
+    const k = key(x);
+    const g = by.get(k);
+    if (g) g.push(x); else by.set(k, [x]);
+  }
+  return by;
+}
+
+/** One warning per reason for the logs that were left out of the rows. */
+export function skippedWarnings(skipped: SkippedLog[]): DataWarning[] {
+  return Array.from(groupBy(skipped, s => s.reason), ([reason, list]) => {
+    const from = list.reduce((m, s) => Math.min(m, s.blockNumber), Infinity);
+    const to = list.reduce((m, s) => Math.max(m, s.blockNumber), -Infinity);
+    const error = list.find(s => s.error)?.error;
+    return {
+      kind: reason === 'removed' ? 'removed_logs' : reason,
+      message: `${plural(list.length, 'log')} ${SKIP_TEXT[reason]} in ${span(from, to)}, left out (first: tx ${list[0].txHash}${error ? `: ${error}` : ''}).`,
+      fromBlock: from,
+      toBlock: to,
+    };
+  });
+}
+
+/**
+ * Missing and repeated game numbers (per contract, since each one counts its own games)
+ * and game ids used by more than one game. A gap only counts between two games that are
+ * both in `rows`; numbers before the first or after the last one are out of range, not missing.
+ */
+export function sequenceIssues(rows: Row[]): DataWarning[] {
+  const gaps: DataWarning[] = [], numbers: DataWarning[] = [], ids: DataWarning[] = [];
+
+  const byContract = groupBy(rows, r => r.contract);
+  for (const [contract, list] of byContract) {
+    const where = byContract.size > 1 && contract ? ` on ${contract}` : '';
+    const byNumber = groupBy(list, r => r.gameNumber);
+    const sorted = Array.from(byNumber.keys()).sort((a, b) => a - b);
+    for (let i = 1; i < sorted.length; i++) {
+      const a = sorted[i - 1], b = sorted[i];
+      if (b - a <= 1) continue;
+      const blocks = [...byNumber.get(a)!, ...byNumber.get(b)!].map(r => r.blockNumber);
+      const from = Math.min(...blocks), to = Math.max(...blocks);
+      const missing = b - a === 2 ? `Game #${a + 1} is` : `Games #${a + 1}–#${b - 1} are`;
+      gaps.push({ kind: 'game_number_gap', message: `${missing} missing${where} between ${span(from, to)}.`, fromBlock: from, toBlock: to });
+    }
+    for (const [n, same] of byNumber) {
+      if (same.length < 2) continue;
+      const blocks = same.map(r => r.blockNumber);
+      numbers.push({
+        kind: 'duplicate_game_number',
+        message: `Game #${n} was logged ${same.length} times${where} (${span(Math.min(...blocks), Math.max(...blocks))}).`,
+        fromBlock: Math.min(...blocks),
+        toBlock: Math.max(...blocks),
+      });
+    }
+  }
+
+  const byId = groupBy(rows.filter(r => r.gameId), r => r.gameId);
+  for (const [id, same] of byId) {
+    // one game logged twice is already a repeated game number
+    const games = Array.from(new Set(same.map(r => `${r.contract}#${r.gameNumber}`)));
+    if (games.length < 2) continue;
+    const blocks = same.map(r => r.blockNumber);
+    ids.push({
+      kind: 'duplicate_game_id',
+      message: `Game id ${id} is used by ${games.length} games (${games.map(g => g.slice(g.indexOf('#'))).join(', ')}).`,
+      fromBlock: Math.min(...blocks),
+      toBlock: Math.max(...blocks),
+    });
+  }
+
+  return [...gaps, ...numbers, ...ids];
+}
+
+/** Keeps responses small: the first few warnings of each kind, then one line counting the rest. */
+export function capWarnings(list: DataWarning[]): DataWarning[] {
+  const out: DataWarning[] = [];
+  for (const kind of Array.from(new Set(list.map(w => w.kind)))) {
+    const all = list.filter(w => w.kind === kind);
+    out.push(...all.slice(0, MAX_PER_KIND));
+    const rest = all.slice(MAX_PER_KIND);
+    if (rest.length) out.push({
+      kind,
+      message: `…and ${rest.length} more like these.`,
+      fromBlock: Math.min(...rest.map(w => w.fromBlock)),
+      toBlock: Math.max(...rest.map(w => w.toBlock)),
+    });
+  }
+  return out;
+}
@@ -0,0 +1,171 @@
+import WebSocket from 'ws';
+import { getLatest } from './chain';
+import { syncIndex } from './indexer';
+import type { Source } from './profiles';
+import type { Row } from './rows';
+
+/** How often the chain head is polled when there is no log subscription. */
+const POLL_MS = Number(process.env.LIVE_POLL_MS) || 3_000;
+/** With a subscription open, polling only backs it up in case it silently stalls. */
+const SUBSCRIBED_POLL_MS = 30_000;
+const RECONNECT_MS = 10_000;
+/** How far behind the head a subscriber may start; older games are a normal query's job. */
+export const MAX_BACKFILL = Number(process.env.LIVE_MAX_BACKFILL_BLOCKS) || 10_000;
+
+/** What a live subscriber is told; the live API forwards these to the browser as-is. */
+export type LiveEvent =
+  | { type: 'live'; mode: 'poll' | 'subscription' }
+  | { type: 'head'; block: number; rows: Row[] }
+  /** Blocks this subscriber fell too far behind in (e.g. while the provider kept failing) and won't get; a normal query fills them in. */
+  | { type: 'gap'; fromBlock: number; toBlock: number }
+  | { type: 'error'; error: string };
+
+type Subscriber = {
+  /** Last block this subscriber has every game up to; null until the first head is seen. */
+  block: number | null;
+  send: (e: LiveEvent) => void;
+};
+
+/** One per source, shared by everyone following it, so the chain is watched once however many pages are open. */
+type Follower = {
+  source: Source;
+  subs: Set<Subscriber>;
+  timer?: ReturnType<typeof setTimeout>;
+  reconnect?: ReturnType<typeof setTimeout>;
+  socket?: WebSocket;
+  subscribed: boolean;
+  /** The endpoint answered eth_subscribe with an error; don't ask again. */
+  unsupported: boolean;
+  /** Highest block a subscription notification mentioned; polled for quickly until synced. */
+  seen: number;
+  head: number;
+  running: boolean;
+  pending: boolean;
+  stopped: boolean;
+};
+
+const followers = new Map<string, Follower>();
+
+const mode = (f: Follower): LiveEvent => ({ type: 'live', mode: f.subscribed ? 'subscription' : 'poll' });
+
+function announce(f: Follower) {
+  const e = mode(f);
+  for (const s of f.subs) s.send(e);
+}
+
+function schedule(f: Follower) {
+  if (f.stopped) return;
+  clearTimeout(f.timer);
+  f.timer = setTimeout(() => wake(f), f.subscribed && f.head >= f.seen ? SUBSCRIBED_POLL_MS : POLL_MS);
+}
+
+/**
+ * Syncs the index up to the latest block and hands each subscriber the games it hasn't
+ * had yet. Calls that arrive while one is running fold into one more pass after it.
+ */
+async function wake(f: Follower) {
+  if (f.running) { f.pending = true; return; }
+  f.running = true;
+  try {
+    do {
+      f.pending = false;
+      const latest = (await getLatest(f.source.pool)).num;
+      f.head = Math.max(f.head, latest);
+      for (const s of f.subs) {
+        if (s.block === null) {
+          s.block = latest;
+        } else if (s.block < latest - MAX_BACKFILL) {
+          s.send({ type: 'gap', fromBlock: s.block + 1, toBlock: latest - MAX_BACKFILL });
+          s.block = latest - MAX_BACKFILL;
+        }
+      }
+      const behind = Array.from(f.subs).filter(s => s.block! < latest);
+      if (!behind.length) continue;
+      const from = Math.max(Math.min(...behind.map(s => s.block!)) + 1, f.source.deployBlock ?? 0);
+      const snap = await syncIndex(f.source, from, latest);
+      for (const s of behind) {
+        const rows = snap.rows.filter(r => r.blockNumber > s.block! && r.blockNumber <= latest);
+        s.block = latest;
+        s.send({ type: 'head', block: latest, rows });
+      }
+    } while (f.pending && !f.stopped);
+  } catch (e: any) {
+    // keep following: the next poll tries again
+    for (const s of f.subs) s.send({ type: 'error', error: e?.message || String(e) });
+  } finally {
+    f.running = false;
+    schedule(f);
+  }
+}
+
+/**
+ * Opens an `eth_subscribe` logs subscription for the source's contracts and events on the
+ * profile's WebSocket endpoint. Notifications only wake the follower; rows still come
+ * through the index, so they are decoded and stored exactly like a normal query's.
+ */
+function subscribe(f: Follower) {
+  const url = f.source.profile.ws;
+  if (!url || f.stopped || f.unsupported) return;
+  const socket = new WebSocket(url);
+  f.socket = socket;
+  socket.on('open', () => {
+    const filter = { address: f.source.addresses, topics: [f.source.topics] };
+    socket.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_subscribe', params: ['logs', filter] }));
+  });
+  socket.on('message', data => {
+    let msg: any;
+    try { msg = JSON.parse(String(data)); } catch { return; }
+    if (msg?.id === 1) {
+      if (msg.error || !msg.result) { f.unsupported = true; socket.close(); return; }
+      f.subscribed = true;
+      announce(f);
+      schedule(f);
+    } else if (msg?.method === 'eth_subscription') {
+      const n = parseInt(msg.params?.result?.blockNumber, 16);
+      if (n > f.seen) f.seen = n;
+      wake(f);
+    }
+  });
+  // 'close' follows every error and does the cleanup
+  socket.on('error', () => {});
+  socket.on('close', () => {
+    if (f.socket !== socket) return;
+    f.socket = undefined;
+    if (f.subscribed) { f.subscribed = false; announce(f); }
+    schedule(f);
+    if (!f.stopped && !f.unsupported) f.reconnect = setTimeout(() => subscribe(f), RECONNECT_MS);
+  });
+}
+
+function stop(f: Follower) {
+  f.stopped = true;
+  clearTimeout(f.timer);
+  clearTimeout(f.reconnect);
+  f.socket?.close();
+  followers.delete(f.source.key);
+}
+
+/**
+ * Follows the chain head for `source`, sending `send` every game in blocks after `after`
+ * (or, without it, from the current head on) as new blocks land. A subscriber is never
+ * more than MAX_BACKFILL blocks behind the head: one that falls further back is sent a
+ * `gap` for the blocks it skips. Returns the unsubscribe function; the last one out stops
+ * the polling and closes the subscription.
+ */
+export function follow(source: Source, after: number | undefined, send: (e: LiveEvent) => void): () => void {
+  let f = followers.get(source.key);
+  if (!f) {
+    f = { source, subs: new Set(), subscribed: false, unsupported: false, seen: 0, head: 0, running: false, pending: false, stopped: false };
+    followers.set(source.key, f);
+    subscribe(f);
+  }
+  const follower = f;
+  const sub: Subscriber = { block: after ?? null, send };
+  follower.subs.add(sub);
+  send(mode(follower));
+  wake(follower);
+  return () => {
+    follower.subs.delete(sub);
+    if (!follower.subs.size) stop(follower);
+  };
+}
@@ -0,0 +1,47 @@
+import { chainOrder, normName, rowTime, type PlayerMatch } from './rows';
+
+export type OpponentStat = {
+  key: string;
+  opponent: string;
+  games: number;
+  wins: number;
+  losses: number;
+  winrate: number;
+  /** epoch ms of the most recent game, null when no game had a parseable `startedAt` */
+  lastPlayed: number | null;
+  matches: PlayerMatch[];
+};
+
+/** Groups one player's matches by opponent (case-insensitively). */
+export function opponentStats(matches: PlayerMatch[]): OpponentStat[] {
+  const by = new Map<string, OpponentStat>();
+  for (const m of matches) {
+    const key = normName(m.opponent);
+    let o = by.get(key);
+    if (!o) {
+      o = { key, opponent: m.opponent.trim(), games: 0, wins: 0, losses: 0, winrate: 0, lastPlayed: null, matches: [] };
+      by.set(key, o);
+    }
+    o.games++;
+    if (m.result === 'W') o.wins++; else o.losses++;
+    o.winrate = o.wins / o.games;
+    const t = rowTime(m);
+    if (t !== null && (o.lastPlayed === null || t > o.lastPlayed)) o.lastPlayed = t;
+    o.matches.push(m);
+  }
+  for (const o of by.values()) o.matches.sort((a, b) => chainOrder(b, a));
+  return Array.from(by.values());
+}
+
+export type OpponentSortKey = 'opponent' | 'games' | 'wins' | 'losses' | 'winrate' | 'lastPlayed';
+
+export function sortOpponents(list: OpponentStat[], key: OpponentSortKey, dir: 'asc' | 'desc') {
+  const sign = dir === 'asc' ? 1 : -1;
+  return [...list].sort((a, b) => {
+    const x = a[key], y = b[key];
+    let c: number;
+    if (typeof x === 'string' || typeof y === 'string') c = String(x).localeCompare(String(y));
+    else c = (x ?? -Infinity) - (y ?? -Infinity);
+    return c * sign || b.games - a.games || a.opponent.localeCompare(b.opponent);
+  });
+}
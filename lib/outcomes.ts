@@ -0,0 +1,74 @@
+import { parseClasses, type Tally } from './classes';
+import { normName, type PlayerMatch, type Row } from './rows';
+
+/** Upper bounds (exclusive, in seconds) of the game-length buckets. */
+export const LENGTH_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: '< 5 min', max: 5 * 60 },
+  { label: '5–10 min', max: 10 * 60 },
+  { label: '10–15 min', max: 15 * 60 },
+  { label: '15–20 min', max: 20 * 60 },
+  { label: '20–30 min', max: 30 * 60 },
+  { label: '30+ min', max: Infinity },
+];
+
+function bump(t: Tally, won: boolean) {
+  t.games++;
+  if (won) t.wins++; else t.losses++;
+  t.winrate = t.wins / t.games;
+}
+
+const tally = (key: string): Tally => ({ key, games: 0, wins: 0, losses: 0, winrate: 0 });
+
+/** One player's win rate per game-length bucket; `unknown` counts games whose length couldn't be read. */
+export function winrateByLength(matches: PlayerMatch[]) {
+  const buckets = LENGTH_BUCKETS.map(b => tally(b.label));
+  let unknown = 0;
+  for (const m of matches) {
+    if (m.lengthSec === null) { unknown++; continue; }
+    const i = LENGTH_BUCKETS.findIndex(b => m.lengthSec! < b.max);
+    bump(buckets[i], m.result === 'W');
+  }
+  return { buckets, unknown };
+}
+
+export type ReasonStat = Tally & { reason: string; share: number };
+
+/** How one player's games ended (case-insensitively grouped), most common first. */
+export function endReasonStats(matches: PlayerMatch[]): ReasonStat[] {
+  const by = new Map<string, ReasonStat>();
+  for (const m of matches) {
+    const key = normName(m.endReason) || '(none)';
+    let r = by.get(key);
+    if (!r) { r = { ...tally(key), reason: m.endReason.trim() || '(none)', share: 0 }; by.set(key, r); }
+    bump(r, m.result === 'W');
+  }
+  const list = Array.from(by.values());
+  for (const r of list) r.share = r.games / matches.length;
+  return list.sort((a, b) => b.games - a.games);
+}
+
+export type LengthCell = { games: number; totalSec: number };
+
+/**
+ * Average game length per class matchup across all games with a readable length.
+ * `cells[a][b]` covers games where a side fielding `a` met a side fielding `b`, so the
+ * table is symmetric.
+ */
+export function matchupLengths(rows: Row[]) {
+  const cells: Record<string, Record<string, LengthCell>> = {};
+  const totals = new Map<string, number>();
+  const add = (a: string, b: string, sec: number) => {
+    const row = cells[a] || (cells[a] = {});
+    const cell = row[b] || (row[b] = { games: 0, totalSec: 0 });
+    cell.games++;
+    cell.totalSec += sec;
+  };
+  for (const r of rows) {
+    if (r.lengthSec === null) continue;
+    const w = parseClasses(r.winningClasses), l = parseClasses(r.losingClasses);
+    for (const c of [...w, ...l]) totals.set(c, (totals.get(c) || 0) + 1);
+    for (const a of w) for (const b of l) { add(a, b, r.lengthSec); if (a !== b) add(b, a, r.lengthSec); }
+  }
+  const classes = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).map(([c]) => c);
+  return { classes, cells };
+}
@@ -0,0 +1,24 @@
+import type { NextApiRequest } from 'next';
+
+type Param = NextApiRequest['query'][string];
+
+/** First value of a query parameter, trimmed; undefined when absent or empty. */
+export function strParam(v: Param): string | undefined {
+  const s = (Array.isArray(v) ? v[0] : v)?.trim();
+  return s ? s : undefined;
+}
+
+/** Comma-separated and/or repeated query parameter as a list. */
+export function listParam(v: Param): string[] {
+  return (Array.isArray(v) ? v : v ? [v] : []).flatMap(x => x.split(',')).map(x => x.trim()).filter(Boolean);
+}
+
+export function intParam(v: Param, def: number, min: number, max: number) {
+  const n = parseInt(strParam(v) ?? '', 10);
+  return isNaN(n) ? def : Math.min(max, Math.max(min, n));
+}
+
+export function optIntParam(v: Param): number | undefined {
+  const n = parseInt(strParam(v) ?? '', 10);
+  return isNaN(n) ? undefined : n;
+}
@@ -0,0 +1,54 @@
+import { dayEnd, dayStart } from './timezone';
+
+/**
+ * What a player page shows, as carried in its URL. Dates are whole days (`YYYY-MM-DD`) in
+ * `tz` (default UTC); `days` is a rolling window ending now and wins over `from`/`to`.
+ */
+export type PlayerView = {
+  profile?: string;
+  rpc?: string;
+  from?: string;
+  to?: string;
+  /** IANA time zone for `from`/`to` and the times shown */
+  tz?: string;
+  days?: number;
+  opponent?: string;
+  endReason?: string[];
+  /** false to see alias-group accounts separately */
+  aliases?: boolean;
+};
+
+/** `/player/<name>` with `view` in the query string; defaults are left out so links stay short. */
+export function playerPath(name: string, view: PlayerView = {}) {
+  const qs = new URLSearchParams();
+  if (view.profile) qs.set('profile', view.profile);
+  if (view.rpc) qs.set('rpc', view.rpc);
+  if (view.days) {
+    qs.set('days', String(view.days));
+  } else {
+    if (view.from) qs.set('from', view.from);
+    if (view.to) qs.set('to', view.to);
+  }
+  if (view.tz && view.tz !== 'UTC') qs.set('tz', view.tz);
+  if (view.opponent) qs.set('opponent', view.opponent);
+  if (view.endReason?.length) qs.set('endReason', view.endReason.join(','));
+  if (view.aliases === false) qs.set('aliases', '0');
+  const q = qs.toString();
+  return `/player/${encodeURIComponent(name)}${q ? `?${q}` : ''}`;
+}
+
+/** The epoch-seconds range a view covers. */
+export function viewRange(view: PlayerView, now = Date.now()): { startTs?: number; endTs?: number } {
+  if (view.days) return { startTs: Math.floor(now / 1000) - view.days * 86_400 };
+  const tz = view.tz || 'UTC';
+  return { startTs: dayStart(view.from, tz), endTs: dayEnd(view.to, tz) };
+}
+
+/** Short human description of a view's range, for titles and link previews. */
+export function describeRange(view: PlayerView) {
+  if (view.days) return `last ${view.days} days`;
+  if (view.from && view.to) return view.from === view.to ? view.from : `${view.from} to ${view.to}`;
+  if (view.from) return `since ${view.from}`;
+  if (view.to) return `until ${view.to}`;
+  return 'all time';
+}
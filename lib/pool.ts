@@ -0,0 +1,97 @@
+const EWMA = 0.2;
+const FAILURES_TO_OPEN = 3;
+const BASE_COOLDOWN_MS = 5_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+const THROTTLE_PENALTY_MS = 60_000;
+
+/** Rolling health of one endpoint, shared by every pool that uses it. */
+type Health = {
+  latency: number;
+  errorRate: number;
+  throttledAt: number;
+  failures: number;
+  openUntil: number;
+  cooldown: number;
+  inflight: number;
+};
+
+const health = new Map<string, Health>();
+
+function healthOf(url: string): Health {
+  let h = health.get(url);
+  if (!h) {
+    h = { latency: 500, errorRate: 0, throttledAt: 0, failures: 0, openUntil: 0, cooldown: BASE_COOLDOWN_MS, inflight: 0 };
+    health.set(url, h);
+  }
+  return h;
+}
+
+/** Lower is better: latency inflated by recent errors, recent 429s and requests already in flight. */
+function score(h: Health, now: number) {
+  const throttled = now - h.throttledAt < THROTTLE_PENALTY_MS ? 2_000 : 0;
+  return h.latency * (1 + 4 * h.errorRate) * (1 + h.inflight) + throttled;
+}
+
+export type RpcPool = {
+  /** Identifies the chain for caches: the profile id, plus the endpoint when it isn't one of the profile's. */
+  key: string;
+  /** Tried in order of health; the first one is the preferred endpoint. */
+  endpoints: string[];
+};
+
+export function poolFor(key: string, endpoints: string[]): RpcPool {
+  return { key, endpoints: Array.from(new Set(endpoints)) };
+}
+
+/** Endpoints whose circuit is closed (or whose cool-down has run out, for a half-open trial). */
+export function available(pool: RpcPool, now = Date.now()) {
+  return pool.endpoints.filter(u => healthOf(u).openUntil <= now);
+}
+
+/**
+ * The healthiest endpoint not in `exclude`. When every circuit is open the one closest to
+ * re-opening is used rather than failing outright.
+ */
+export function pick(pool: RpcPool, exclude: string[] = []): string {
+  const now = Date.now();
+  let candidates = available(pool, now).filter(u => !exclude.includes(u));
+  if (!candidates.length) candidates = available(pool, now);
+  if (!candidates.length) {
+    return [...pool.endpoints].sort((a, b) => healthOf(a).openUntil - healthOf(b).openUntil)[0];
+  }
+  return candidates.sort((a, b) => score(healthOf(a), now) - score(healthOf(b), now))[0];
+}
+
+export function started(url: string) { healthOf(url).inflight++; }
+
+export function succeeded(url: string, ms: number) {
+  const h = healthOf(url);
+  h.inflight = Math.max(0, h.inflight - 1);
+  h.latency = h.latency * (1 - EWMA) + ms * EWMA;
+  h.errorRate *= 1 - EWMA;
+  h.failures = 0;
+  h.openUntil = 0;
+  h.cooldown = BASE_COOLDOWN_MS;
+}
+
+/** Counts a failed call; enough of them in a row put the endpoint in a growing cool-down. */
+export function failed(url: string, throttled: boolean) {
+  const now = Date.now();
+  const h = healthOf(url);
+  h.inflight = Math.max(0, h.inflight - 1);
+  h.errorRate = h.errorRate * (1 - EWMA) + EWMA;
+  if (throttled) h.throttledAt = now;
+  if (++h.failures >= FAILURES_TO_OPEN || (h.openUntil && h.openUntil <= now)) {
+    // a failed half-open trial re-opens the circuit straight away, for twice as long
+    h.openUntil = now + h.cooldown;
+    h.cooldown = Math.min(MAX_COOLDOWN_MS, h.cooldown * 2);
+  }
+}
+
+export function poolHealth(pool: RpcPool) {
+  const now = Date.now();
+  return pool.endpoints.map(url => {
+    const h = healthOf(url);
+    return { url, latencyMs: Math.round(h.latency), errorRate: h.errorRate, open: h.openUntil > now, inflight: h.inflight };
+  });
+}
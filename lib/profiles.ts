@@ -0,0 +1,139 @@
+import { decoderFor, type Decoder } from './abi';
+import { poolFor, type RpcPool } from './pool';
+import { hashKey } from './store';
+
+export type ContractConfig = {
+  address: string;
+  /** Deployment block; nothing before it is ever fetched. */
+  fromBlock?: number;
+  /** ABI version ids from ABI_VERSIONS, or full `event ...` signatures. */
+  abis: string[];
+};
+
+/** A network + contracts the app can read games from. */
+export type Profile = {
+  id: string;
+  name: string;
+  rpcs: string[];
+  /** WebSocket endpoint for `eth_subscribe`, if the network has one; live mode polls without it. */
+  ws?: string;
+  contracts: ContractConfig[];
+  /** Transaction link with `{tx}` where the hash goes. */
+  explorerTx: string;
+};
+
+const split = (s?: string) => (s || '').split(',').map(x => x.trim()).filter(Boolean);
+
+/** Canonical form of an endpoint URL, so allowlist and profile lookups ignore trailing slashes; '' if it isn't one. */
+export function normUrl(u: string) {
+  try {
+    const url = new URL(u.trim());
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+  } catch {
+    return '';
+  }
+}
+
+const BUILTIN: Profile[] = [
+  {
+    id: 'megaeth-testnet',
+    name: 'MegaETH testnet',
+    rpcs: [process.env.RPC_URL || 'https://carrot.megaeth.com/rpc', ...split(process.env.RPC_URLS)],
+    ws: process.env.RPC_WS_URL || undefined,
+    contracts: [{ address: process.env.CONTRACT_ADDRESS || '0xae2afe4d192127e6617cfa638a94384b53facec1', fromBlock: 0, abis: ['v1'] }],
+    explorerTx: 'https://web3.okx.com/explorer/megaeth-testnet/tx/{tx}',
+  },
+];
+
+function checkProfile(p: any): Profile {
+  const where = `profile ${JSON.stringify(p?.id ?? '?')}`;
+  if (!p || typeof p.id !== 'string' || !/^[\w.-]+$/.test(p.id)) throw new Error(`${where}: id must be a slug`);
+  if (!Array.isArray(p.rpcs) || !p.rpcs.length || p.rpcs.some((u: any) => typeof u !== 'string' || !normUrl(u))) throw new Error(`${where}: rpcs must be a non-empty list of URLs`);
+  if (p.ws !== undefined && (typeof p.ws !== 'string' || !/^wss?:\/\//.test(normUrl(p.ws)))) throw new Error(`${where}: ws must be a ws(s) URL`);
+  if (!Array.isArray(p.contracts) || !p.contracts.length) throw new Error(`${where}: contracts must be a non-empty list`);
+  const contracts: ContractConfig[] = p.contracts.map((c: any) => {
+    if (typeof c?.address !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(c.address)) throw new Error(`${where}: bad contract address`);
+    const abis = Array.isArray(c.abis) && c.abis.length ? c.abis.map(String) : ['v1'];
+    abis.forEach(decoderFor);
+    return { address: c.address.toLowerCase(), fromBlock: Number.isInteger(c.fromBlock) ? c.fromBlock : undefined, abis };
+  });
+  return {
+    id: p.id,
+    name: typeof p.name === 'string' ? p.name : p.id,
+    rpcs: p.rpcs.map(normUrl),
+    ws: p.ws ? normUrl(p.ws) : undefined,
+    contracts,
+    explorerTx: typeof p.explorerTx === 'string' ? p.explorerTx : '',
+  };
+}
+
+/**
+ * Built-in profiles plus any from PROFILES (a JSON array of Profile objects). An entry with a
+ * built-in id replaces it; the first profile is the default.
+ */
+function loadProfiles(): Profile[] {
+  const list = BUILTIN.map(checkProfile);
+  if (!process.env.PROFILES) return list;
+  const extra = JSON.parse(process.env.PROFILES);
+  if (!Array.isArray(extra)) throw new Error('PROFILES must be a JSON array');
+  for (const p of extra.map(checkProfile)) {
+    const i = list.findIndex(x => x.id === p.id);
+    if (i >= 0) list[i] = p; else list.push(p);
+  }
+  return list;
+}
+
+export const PROFILES = loadProfiles();
+export const DEFAULT_PROFILE = PROFILES[0];
+
+export function findProfile(id?: string) {
+  return id ? PROFILES.find(p => p.id === id) : DEFAULT_PROFILE;
+}
+
+/** Everything the indexer needs to read one profile's games through one pool of endpoints. */
+export type Source = {
+  /** Identifies the index and block caches for this source. */
+  key: string;
+  profile: Profile;
+  pool: RpcPool;
+  contracts: ContractConfig[];
+  addresses: string[];
+  topics: string[];
+  decoders: Decoder[];
+  /** Earliest deployment block across the contracts, if all of them declare one. */
+  deployBlock?: number;
+};
+
+/**
+ * Source for a profile, optionally narrowed to one contract address. With `rpc` one of the
+ * profile's own endpoints it is tried first and the others are failover; any other
+ * (normalised) endpoint is used on its own, since nothing says it serves the same chain.
+ */
+export function sourceFor(profile: Profile, rpc?: string, address?: string): Source {
+  const custom = rpc && !profile.rpcs.includes(rpc) ? rpc : undefined;
+  const primary = rpc || profile.rpcs[0];
+  const contracts = address
+    ? [profile.contracts.find(c => c.address === address.toLowerCase()) || { address: address.toLowerCase(), abis: profile.contracts[0].abis }]
+    : profile.contracts;
+  const decoders = Array.from(new Set(contracts.flatMap(c => c.abis))).map(decoderFor);
+  const addresses = contracts.map(c => c.address);
+  const topics = Array.from(new Set(decoders.map(d => d.topic0)));
+  const chainKey = custom ? `${profile.id}|${custom}` : profile.id;
+  return {
+    key: hashKey(chainKey, [...addresses].sort().join(','), [...topics].sort().join(',')),
+    profile,
+    pool: poolFor(chainKey, custom ? [custom] : [primary, ...profile.rpcs]),
+    contracts,
+    addresses,
+    topics,
+    decoders,
+    deployBlock: contracts.every(c => c.fromBlock !== undefined) ? Math.min(...contracts.map(c => c.fromBlock!)) : undefined,
+  };
+}
+
+/** What the browser gets to see of a profile. */
+export type PublicProfile = Pick<Profile, 'id' | 'name' | 'rpcs' | 'explorerTx'> & { contracts: string[] };
+
+export function publicProfile(p: Profile): PublicProfile {
+  return { id: p.id, name: p.name, rpcs: p.rpcs, explorerTx: p.explorerTx, contracts: p.contracts.map(c => c.address) };
+}
@@ -0,0 +1,104 @@
+import { parseClasses } from './classes';
+import { badRequest } from './http';
+import { normName, rowTime, type Row } from './rows';
+
+export type GameFilter = {
+  player?: string;
+  opponent?: string;
+  winningClass?: string;
+  losingClass?: string;
+  endReasons?: string[];
+  minGame?: number;
+  maxGame?: number;
+};
+
+export const SORT_FIELDS = ['gameNumber', 'blockNumber', 'startedAt'] as const;
+export type SortField = typeof SORT_FIELDS[number];
+export type SortOrder = 'asc' | 'desc';
+
+/** A row as served by the games API; `result`/`opponent` are filled in when filtering by player. */
+export type GameRow = Row & { result?: 'W' | 'L'; opponent?: string };
+
+const hasClass = (classes: string, c: string) => parseClasses(classes).some(x => normName(x) === c);
+
+export function filterRows(rows: Row[], f: GameFilter): GameRow[] {
+  const p = normName(f.player), o = normName(f.opponent);
+  const wc = normName(f.winningClass), lc = normName(f.losingClass);
+  const reasons = f.endReasons?.length ? new Set(f.endReasons.map(normName)) : null;
+  const out: GameRow[] = [];
+  for (const r of rows) {
+    const w = normName(r.winningPlayer), l = normName(r.losingPlayer);
+    if (p && (w === p) === (l === p)) continue;
+    if (o) {
+      // with a player, the opponent must be on the other side; alone, they just have to have played
+      if (p ? (w === p ? l : w) !== o : w !== o && l !== o) continue;
+    }
+    if (wc && !hasClass(r.winningClasses, wc)) continue;
+    if (lc && !hasClass(r.losingClasses, lc)) continue;
+    if (reasons && !reasons.has(normName(r.endReason))) continue;
+    if (f.minGame !== undefined && r.gameNumber < f.minGame) continue;
+    if (f.maxGame !== undefined && r.gameNumber > f.maxGame) continue;
+    out.push(p ? { ...r, result: w === p ? 'W' : 'L', opponent: w === p ? r.losingPlayer : r.winningPlayer } : r);
+  }
+  return out;
+}
+
+function sortValue(r: Row, field: SortField): number {
+  if (field === 'startedAt') return rowTime(r) ?? -1;
+  return r[field];
+}
+
+/** Total order: the sort field, then gameNumber, then txHash, so cursors are unambiguous. */
+function compare(a: { v: number; g: number; t: string }, b: { v: number; g: number; t: string }) {
+  return a.v - b.v || a.g - b.g || (a.t < b.t ? -1 : a.t > b.t ? 1 : 0);
+}
+const keyOf = (r: Row, field: SortField) => ({ v: sortValue(r, field), g: r.gameNumber, t: r.txHash });
+
+export function encodeCursor(r: Row, field: SortField) {
+  return Buffer.from(JSON.stringify(keyOf(r, field))).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { v: number; g: number; t: string } {
+  try {
+    const k = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof k?.v === 'number' && typeof k?.g === 'number' && typeof k?.t === 'string') return k;
+  } catch {}
+  throw badRequest('Invalid cursor');
+}
+
+/** Sorts, skips past `cursor` and returns up to `limit` rows plus the cursor for the next page. */
+export function paginate<T extends Row>(rows: T[], field: SortField, order: SortOrder, cursor?: string, limit = Infinity) {
+  const sign = order === 'asc' ? 1 : -1;
+  const keyed = rows.map(r => ({ r, k: keyOf(r, field) })).sort((a, b) => sign * compare(a.k, b.k));
+  let start = 0;
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    start = keyed.findIndex(x => sign * compare(x.k, after) > 0);
+    if (start < 0) start = keyed.length;
+  }
+  const page = keyed.slice(start, start + limit).map(x => x.r);
+  const more = start + page.length < keyed.length;
+  return { rows: page, total: keyed.length, nextCursor: more && page.length ? encodeCursor(page[page.length - 1], field) : null };
+}
+
+export const CSV_COLUMNS: Array<keyof GameRow> = [
+  'blockNumber', 'txHash', 'contract', 'gameNumber', 'gameId', 'startedAt', 'winningPlayer', 'winningClasses',
+  'losingPlayer', 'losingClasses', 'gameLength', 'endReason', 'startedTs', 'lengthSec',
+];
+
+/**
+ * One CSV field. Text starting like a formula (player names are whatever the contract was
+ * sent) gets a leading `'` so spreadsheets show it instead of evaluating it; numbers are
+ * left alone.
+ */
+function csvCell(v: unknown) {
+  let s = v === undefined || v === null ? '' : String(v);
+  if (typeof v === 'string' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(rows: GameRow[], columns = CSV_COLUMNS) {
+  const lines = [columns.join(',')];
+  for (const r of rows) lines.push(columns.map(c => csvCell(r[c])).join(','));
+  return lines.join('\r\n') + '\r\n';
+}
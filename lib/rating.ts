@@ -0,0 +1,70 @@
+import { chainOrder, normName, type Row } from './rows';
+
+export const INITIAL_RATING = 1500;
+/** K-factor while a player is provisional (fewer than PROVISIONAL_GAMES games), then the settled one. */
+const K_PROVISIONAL = 40;
+const K_SETTLED = 20;
+const PROVISIONAL_GAMES = 30;
+
+export type RatingPoint = { gameNumber: number; rating: number; delta: number; opponent: string; result: 'W' | 'L' };
+
+export type PlayerRating = {
+  key: string;
+  name: string;
+  rating: number;
+  peak: number;
+  games: number;
+  wins: number;
+  losses: number;
+  winrate: number;
+  history: RatingPoint[];
+};
+
+function expected(a: number, b: number) { return 1 / (1 + Math.pow(10, (b - a) / 400)); }
+
+/**
+ * Replays every game in chain order and returns each player's Elo rating and
+ * rating history, keyed by normalised player name.
+ */
+export function computeRatings(rows: Row[]) {
+  const players = new Map<string, PlayerRating>();
+  const get = (name: string) => {
+    const key = normName(name);
+    let p = players.get(key);
+    if (!p) {
+      p = { key, name: name.trim(), rating: INITIAL_RATING, peak: INITIAL_RATING, games: 0, wins: 0, losses: 0, winrate: 0, history: [] };
+      players.set(key, p);
+    }
+    return p;
+  };
+
+  const ordered = [...rows].sort(chainOrder);
+  for (const r of ordered) {
+    if (!normName(r.winningPlayer) || !normName(r.losingPlayer)) continue;
+    if (normName(r.winningPlayer) === normName(r.losingPlayer)) continue;
+    const w = get(r.winningPlayer), l = get(r.losingPlayer);
+    const kw = w.games < PROVISIONAL_GAMES ? K_PROVISIONAL : K_SETTLED;
+    const kl = l.games < PROVISIONAL_GAMES ? K_PROVISIONAL : K_SETTLED;
+    const ew = expected(w.rating, l.rating);
+    const dw = kw * (1 - ew), dl = -kl * (1 - ew);
+
+    w.rating += dw; l.rating += dl;
+    w.peak = Math.max(w.peak, w.rating);
+    w.games++; l.games++; w.wins++; l.losses++;
+    w.winrate = w.wins / w.games; l.winrate = l.wins / l.games;
+    w.history.push({ gameNumber: r.gameNumber, rating: w.rating, delta: dw, opponent: l.name, result: 'W' });
+    l.history.push({ gameNumber: r.gameNumber, rating: l.rating, delta: dl, opponent: w.name, result: 'L' });
+  }
+  return players;
+}
+
+export type LeaderboardEntry = Omit<PlayerRating, 'history'> & { rank: number };
+
+export function leaderboard(players: Map<string, PlayerRating>, page = 1, pageSize = 50, minGames = 1) {
+  const ranked = Array.from(players.values())
+    .filter(p => p.games >= minGames)
+    .sort((a, b) => b.rating - a.rating || b.games - a.games);
+  const start = (page - 1) * pageSize;
+  const entries: LeaderboardEntry[] = ranked.slice(start, start + pageSize).map(({ history, ...p }, i) => ({ ...p, rank: start + i + 1 }));
+  return { total: ranked.length, page, pageSize, entries };
+}
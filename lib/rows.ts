@@ -0,0 +1,115 @@
+export type Row = {
+  blockNumber: number;
+  txHash: string;
+  /** Contract that logged the game, lowercase; '' for rows imported from files that predate it. */
+  contract: string;
+  gameNumber: number;
+  gameId: string;
+  startedAt: string;
+  winningPlayer: string;
+  winningClasses: string;
+  losingPlayer: string;
+  losingClasses: string;
+  gameLength: string;
+  endReason: string;
+  /** `startedAt` as epoch seconds (UTC), null when it can't be read. */
+  startedTs: number | null;
+  /** `gameLength` in seconds, null when it can't be read. */
+  lengthSec: number | null;
+};
+
+/** A row as the contract emits it, before the string fields are parsed. */
+export type RawRow = Omit<Row, 'startedTs' | 'lengthSec'>;
+
+/**
+ * Chain order: by block, then game number. Game numbers alone don't order games across
+ * contracts, since each one a profile lists counts its own.
+ */
+export function chainOrder(a: Pick<Row, 'blockNumber' | 'gameNumber'>, b: Pick<Row, 'blockNumber' | 'gameNumber'>) {
+  return a.blockNumber - b.blockNumber || a.gameNumber - b.gameNumber;
+}
+
+/** Player names are compared trimmed and case-insensitively everywhere. */
+export function normName(s?: string) { return (s || '').trim().toLowerCase(); }
+
+export function pct(x: number, digits = 1) { return `${(x*100).toFixed(digits)}%`; }
+
+/** `m:ss`, or `h:mm:ss` from an hour up. */
+export function fmtDuration(sec: number | null) {
+  if (sec === null || !Number.isFinite(sec)) return '—';
+  const s = Math.round(sec);
+  const h = Math.floor(s / 3600), m = Math.floor((s % 3600) / 60), r = String(s % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${r}` : `${m}:${r}`;
+}
+
+/**
+ * Epoch seconds for a `startedAt` string, which the contract stores as epoch seconds, epoch
+ * milliseconds or anything `Date.parse` understands. ISO strings without an offset are UTC.
+ */
+export function parseStartedAt(startedAt?: string): number | null {
+  const s = (startedAt || '').trim();
+  if (!s) return null;
+  if (/^\d+(\.\d+)?$/.test(s)) {
+    const n = Number(s);
+    return Math.floor(n < 1e12 ? n : n / 1000);
+  }
+  const iso = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(s) ? `${s.replace(' ', 'T')}Z` : s;
+  const t = Date.parse(iso);
+  return isNaN(t) ? null : Math.floor(t / 1000);
+}
+
+const UNIT_SECONDS: Record<string, number> = { h: 3600, m: 60, s: 1, ms: 0.001 };
+const UNIT = /(\d+(?:\.\d+)?)\s*(ms|h(?:ours?|rs?)?|m(?:in(?:ute)?s?)?|s(?:ec(?:ond)?s?)?)/g;
+
+/**
+ * Seconds for a `gameLength` string: plain seconds (values from 100000 up are taken as
+ * milliseconds), `m:ss` / `h:mm:ss`, ISO 8601 (`PT12M5S`) or units (`12m 5s`, `1h 2min`).
+ */
+export function parseDuration(gameLength?: string): number | null {
+  const s = (gameLength || '').trim().toLowerCase();
+  if (!s) return null;
+  if (/^\d+(\.\d+)?$/.test(s)) {
+    const n = Number(s);
+    return Math.round(n >= 100_000 ? n / 1000 : n);
+  }
+  if (/^\d+(:\d{1,2}){1,2}(\.\d+)?$/.test(s)) {
+    return Math.round(s.split(':').reduce((acc, x) => acc * 60 + Number(x), 0));
+  }
+  const iso = /^p(?:t)?(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?$/.exec(s);
+  if (iso && s.length > 2) return Math.round(Number(iso[1] || 0) * 3600 + Number(iso[2] || 0) * 60 + Number(iso[3] || 0));
+  let total = 0, consumed = '';
+  for (const [whole, n, unit] of Array.from(s.matchAll(UNIT))) {
+    total += Number(n) * UNIT_SECONDS[unit === 'ms' ? 'ms' : unit[0]];
+    consumed += whole;
+  }
+  // every character apart from spaces and separators has to belong to a number + unit pair
+  return consumed && s.replace(/[\s,]+/g, '').length === consumed.replace(/\s+/g, '').length ? Math.round(total) : null;
+}
+
+/** Fills in the parsed fields from the raw strings. */
+export function typedRow<T extends RawRow>(r: T): T & Pick<Row, 'startedTs' | 'lengthSec'> {
+  return { ...r, startedTs: parseStartedAt(r.startedAt), lengthSec: parseDuration(r.gameLength) };
+}
+
+/** Epoch milliseconds a row's game started at, or null when unknown. */
+export function rowTime(r: Pick<Row, 'startedAt'> & Partial<Pick<Row, 'startedTs'>>): number | null {
+  const ts = typeof r.startedTs === 'number' ? r.startedTs : parseStartedAt(r.startedAt);
+  return ts === null ? null : ts * 1000;
+}
+
+export type PlayerMatch = Row & { result: 'W' | 'L'; opponent: string };
+
+/**
+ * The games `player` took part in, annotated with the result and opponent from their side.
+ * Games against themselves (e.g. between two accounts in one alias group) are left out.
+ */
+export function playerMatches(rows: Row[], player: string): PlayerMatch[] {
+  const p = normName(player);
+  return rows
+    .filter(r => (normName(r.winningPlayer) === p) !== (normName(r.losingPlayer) === p))
+    .map(r => ({
+      ...r,
+      result: normName(r.winningPlayer) === p ? 'W' : 'L',
+      opponent: normName(r.winningPlayer) === p ? r.losingPlayer : r.winningPlayer,
+    }));
+}
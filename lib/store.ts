@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import os from 'os';
+import path from 'path';
+import type { SkippedLog } from './abi';
+import { parseAliasGroups, type AliasGroup } from './aliases';
+import type { Row } from './rows';
+
+// Vercel functions can only write under /tmp, so that's the default home for the index.
+export const INDEX_DIR = process.env.INDEX_DIR || path.join(os.tmpdir(), 'showdown-index');
+const VERSION = 3;
+
+/** Decoded rows for one source (chain + contracts + event ABIs), covering blocks [fromBlock, syncedBlock] without gaps. */
+export type Snapshot = {
+  version: number;
+  key: string;
+  fromBlock: number;
+  syncedBlock: number;
+  rows: Row[];
+  /** Logs in the range that were left out of `rows`, after a second fetch of their batch. */
+  skipped: SkippedLog[];
+  /** Block ranges (`from-to`) already fetched again over a gap or duplicate; they aren't refetched twice. */
+  rechecked: string[];
+};
+
+const memory = new Map<string, Snapshot>();
+const locks = new Map<string, Promise<unknown>>();
+
+export function hashKey(...parts: string[]) {
+  return createHash('sha1').update(parts.join('|')).digest('hex').slice(0, 16);
+}
+
+export async function readJsonFile<T>(name: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(INDEX_DIR, name), 'utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+let tmpSeq = 0;
+
+export async function writeJsonFile(name: string, data: unknown) {
+  await fs.mkdir(INDEX_DIR, { recursive: true });
+  // write-then-rename so a crashed write never leaves a truncated file behind
+  const file = path.join(INDEX_DIR, name);
+  const tmp = `${file}.${process.pid}.${++tmpSeq}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, file);
+}
+
+export async function loadSnapshot(key: string): Promise<Snapshot | null> {
+  const hit = memory.get(key);
+  if (hit) return hit;
+  const s = await readJsonFile<Snapshot>(`${key}.json`);
+  if (!s || s.version !== VERSION || s.key !== key || !Array.isArray(s.rows)) return null;
+  memory.set(key, s);
+  return s;
+}
+
+export async function saveSnapshot(s: Omit<Snapshot, 'version'>) {
+  const full: Snapshot = { ...s, version: VERSION };
+  memory.set(s.key, full);
+  await writeJsonFile(`${s.key}.json`, full);
+  return full;
+}
+
+/** Serialises work per index so concurrent requests don't sync the same blocks twice. */
+export function withIndexLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(key) || Promise.resolve();
+  const next = prev.catch(() => {}).then(fn);
+  locks.set(key, next);
+  next.finally(() => { if (locks.get(key) === next) locks.delete(key); }).catch(() => {});
+  return next;
+}
+
+const ALIASES_FILE = 'aliases.json';
+let aliases: AliasGroup[] | null = null;
+
+/** Saved alias groups; until any are saved, the ALIASES env var (a JSON list) seeds them. */
+export async function loadAliases(): Promise<AliasGroup[]> {
+  if (!aliases) {
+    const saved = await readJsonFile<AliasGroup[]>(ALIASES_FILE);
+    if (saved) {
+      aliases = saved;
+    } else {
+      const seed = parseAliasGroups(JSON.parse(process.env.ALIASES || '[]'));
+      if (seed.errors.length) throw new Error(`ALIASES: ${seed.errors.join('; ')}`);
+      aliases = seed.groups;
+    }
+  }
+  return aliases;
+}
+
+export async function saveAliases(groups: AliasGroup[]) {
+  aliases = groups;
+  await writeJsonFile(ALIASES_FILE, groups);
+}
@@ -0,0 +1,27 @@
+import type { QueryEvent } from './indexer';
+
+/** One line of the NDJSON stream served by `/api/eth` when called with `stream: true`. */
+export type StreamEvent =
+  | QueryEvent
+  | { type: 'done'; count: number }
+  | { type: 'error'; error: string };
+
+/** Reads a newline-delimited JSON body, handing each parsed line to `onItem` as it arrives. */
+export async function readNdjson<T>(body: ReadableStream<Uint8Array>, onItem: (item: T) => void) {
+  const reader = body.getReader();
+  const dec = new TextDecoder();
+  let buf = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += dec.decode(value, { stream: true });
+    let nl: number;
+    while ((nl = buf.indexOf('\n')) >= 0) {
+      const line = buf.slice(0, nl).trim();
+      buf = buf.slice(nl + 1);
+      if (line) onItem(JSON.parse(line));
+    }
+  }
+  buf += dec.decode();
+  if (buf.trim()) onItem(JSON.parse(buf));
+}
@@ -0,0 +1,78 @@
+import { chainOrder, rowTime, type PlayerMatch } from './rows';
+import { addDays, dateKey, dayStart, LOCAL_TZ, weekday } from './timezone';
+
+export type BucketSize = 'day' | 'week';
+
+export type Bucket = { key: string; start: number; games: number; wins: number; losses: number; winrate: number };
+
+/** The day (or Monday-based week) instant `t` falls in, as the `YYYY-MM-DD` it starts on in `tz`. */
+function bucketKey(t: number, size: BucketSize, tz: string) {
+  const day = dateKey(t, tz);
+  return size === 'week' ? addDays(day, -weekday(day)) : day;
+}
+
+/** Matches in chronological order (by `startedAt`, then chain order) with their timestamps. */
+export function chronological(matches: PlayerMatch[]) {
+  return matches
+    .map(m => ({ m, t: rowTime(m) }))
+    .sort((a, b) => (a.t ?? Infinity) - (b.t ?? Infinity) || chainOrder(a.m, b.m));
+}
+
+/**
+ * Games and win rate per calendar day or week in `tz`; days without games are filled in
+ * as empty buckets. Games whose start can't be read belong to no day and are only counted,
+ * in `undated`.
+ */
+export function bucketize(matches: PlayerMatch[], size: BucketSize, tz = LOCAL_TZ): { buckets: Bucket[]; undated: number } {
+  const empty = (key: string): Bucket => ({ key, start: dayStart(key, tz)! * 1000, games: 0, wins: 0, losses: 0, winrate: 0 });
+  const by = new Map<string, Bucket>();
+  let undated = 0;
+  for (const { m, t } of chronological(matches)) {
+    if (t === null) { undated++; continue; }
+    const key = bucketKey(t, size, tz);
+    let b = by.get(key);
+    if (!b) { b = empty(key); by.set(key, b); }
+    b.games++;
+    if (m.result === 'W') b.wins++; else b.losses++;
+    b.winrate = b.wins / b.games;
+  }
+  const filled: Bucket[] = [];
+  const keys = Array.from(by.keys()).sort();
+  if (!keys.length) return { buckets: filled, undated };
+  for (let k = keys[0]; k <= keys[keys.length - 1]; k = addDays(k, size === 'week' ? 7 : 1)) {
+    filled.push(by.get(k) || empty(k));
+  }
+  return { buckets: filled, undated };
+}
+
+export type RollingPoint = { index: number; gameNumber: number; winrate: number };
+
+/** Win rate over the last `n` games after each game, once `n` games have been played. */
+export function rollingWinrate(matches: PlayerMatch[], n: number): RollingPoint[] {
+  const ordered = chronological(matches).map(x => x.m);
+  const out: RollingPoint[] = [];
+  let wins = 0;
+  ordered.forEach((m, i) => {
+    if (m.result === 'W') wins++;
+    if (i >= n && ordered[i - n].result === 'W') wins--;
+    if (i >= n - 1) out.push({ index: i + 1, gameNumber: m.gameNumber, winrate: wins / n });
+  });
+  return out;
+}
+
+export type Streak = { result: 'W' | 'L'; length: number; fromGame: number; toGame: number };
+
+export function streaks(matches: PlayerMatch[]) {
+  const ordered = chronological(matches).map(x => x.m);
+  let current: Streak | null = null;
+  let longestWin: Streak | null = null, longestLoss: Streak | null = null;
+  for (const m of ordered) {
+    const next: Streak = current && current.result === m.result
+      ? { ...current, length: current.length + 1, toGame: m.gameNumber }
+      : { result: m.result, length: 1, fromGame: m.gameNumber, toGame: m.gameNumber };
+    if (m.result === 'W' && (!longestWin || next.length > longestWin.length)) longestWin = next;
+    if (m.result === 'L' && (!longestLoss || next.length > longestLoss.length)) longestLoss = next;
+    current = next;
+  }
+  return { current, longestWin, longestLoss };
+}
@@ -0,0 +1,106 @@
+/** `'local'` is whatever zone the code runs in (the browser's, on the page); anything else is an IANA name such as `UTC`. */
+export const LOCAL_TZ = 'local';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(tz: string) {
+  let f = formatters.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz === LOCAL_TZ ? undefined : tz,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    formatters.set(tz, f);
+  }
+  return f;
+}
+
+export function isTimeZone(tz: string) {
+  if (tz === LOCAL_TZ) return true;
+  try {
+    formatter(tz);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** IANA zones to offer in pickers, UTC first. */
+export function timeZones(): string[] {
+  const all = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return ['UTC', ...all.filter(z => z !== 'UTC')];
+}
+
+/** Wall-clock fields of instant `t` (epoch ms) in `tz`. */
+function wallClock(t: number, tz: string) {
+  const p: Record<string, number> = {};
+  for (const part of formatter(tz).formatToParts(new Date(t))) {
+    if (part.type !== 'literal') p[part.type] = Number(part.value);
+  }
+  return p as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+/** How far `tz` is ahead of UTC at instant `t`, in ms. */
+function offsetAt(t: number, tz: string) {
+  const w = wallClock(t, tz);
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second) - Math.floor(t / 1000) * 1000;
+}
+
+/** Epoch ms of midnight starting `YYYY-MM-DD` in `tz`. */
+function midnight(date: string, tz: string) {
+  const [y, m, d] = date.split('-').map(Number);
+  const wall = Date.UTC(y, m - 1, d);
+  const guess = wall - offsetAt(wall, tz);
+  // the offset can differ on the other side of a DST change; one correction settles it
+  return wall - offsetAt(guess, tz);
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A real `YYYY-MM-DD` day; Date.parse rolls ones like 2024-02-31 over into the next month. */
+export function isDay(date: string | undefined): date is string {
+  if (!date || !DAY.test(date)) return false;
+  const t = Date.parse(`${date}T00:00:00Z`);
+  return !isNaN(t) && new Date(t).toISOString().slice(0, 10) === date;
+}
+
+/** Epoch seconds of the first second of day `date` (`YYYY-MM-DD`) in `tz`. */
+export function dayStart(date: string | undefined, tz: string): number | undefined {
+  if (!isDay(date)) return undefined;
+  return Math.floor(midnight(date, tz) / 1000);
+}
+
+/** Epoch seconds of the last second of day `date` in `tz`. */
+export function dayEnd(date: string | undefined, tz: string): number | undefined {
+  if (!isDay(date)) return undefined;
+  return Math.floor(midnight(addDays(date, 1), tz) / 1000) - 1;
+}
+
+/** The `YYYY-MM-DD` day instant `t` (epoch ms) falls on in `tz`. */
+export function dateKey(t: number, tz: string) {
+  const w = wallClock(t, tz);
+  return `${w.year}-${String(w.month).padStart(2, '0')}-${String(w.day).padStart(2, '0')}`;
+}
+
+/** Calendar arithmetic on `YYYY-MM-DD` strings. */
+export function addDays(date: string, n: number) {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + n)).toISOString().slice(0, 10);
+}
+
+/** Day of the week of `YYYY-MM-DD`, Monday = 0. */
+export function weekday(date: string) {
+  return (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+/**
+ * Instant `t` (epoch ms) as `YYYY-MM-DD HH:MM:SS` in `tz`. Built from numeric fields rather
+ * than the runtime's locale, so a server-rendered page shows the same text as the browser.
+ */
+export function formatTime(t: number | null, tz: string) {
+  if (t === null) return '—';
+  const w = wallClock(t, tz);
+  const two = (n: number) => String(n).padStart(2, '0');
+  return `${w.year}-${two(w.month)}-${two(w.day)} ${two(w.hour)}:${two(w.minute)}:${two(w.second)}`;
+}
@@ -0,0 +1,104 @@
+import type { ParsedUrlQuery } from 'querystring';
+import { ApiError, badRequest } from './http';
+import { listParam, strParam } from './params';
+import type { PlayerView } from './permalink';
+import { isDay, isTimeZone, LOCAL_TZ } from './timezone';
+import { findProfile, normUrl, PROFILES, sourceFor, type Profile, type Source } from './profiles';
+
+// 2100-01-01; anything later is a typo or milliseconds
+const MAX_TS = 4_102_444_800;
+
+/** RPC endpoints the server will talk to: every profile's plus the comma-separated RPC_ALLOWLIST. */
+export const RPC_ALLOWLIST = new Set(
+  [...PROFILES.flatMap(p => p.rpcs), ...(process.env.RPC_ALLOWLIST || '').split(',')]
+    .map(normUrl)
+    .filter(Boolean),
+);
+
+export function checkProfile(v: unknown): Profile {
+  if (v !== undefined && v !== null && typeof v !== 'string') throw badRequest('profile must be a string');
+  const p = findProfile((v as string | undefined) || undefined);
+  if (!p) throw badRequest(`Unknown profile "${v}"`, { profiles: PROFILES.map(x => x.id) });
+  return p;
+}
+
+/** An allowlisted RPC URL overriding the profile's first endpoint, or undefined for the profile's own. */
+export function checkRpc(v: unknown): string | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  if (typeof v !== 'string') throw badRequest('rpc must be a string');
+  const url = normUrl(v);
+  if (!url || !/^https?:$/.test(new URL(url).protocol)) throw badRequest('rpc must be an http(s) URL');
+  if (!RPC_ALLOWLIST.has(url)) throw new ApiError(403, 'rpc_not_allowed', 'This RPC endpoint is not on the server allowlist.', { allowed: Array.from(RPC_ALLOWLIST) });
+  return url;
+}
+
+/** One contract to narrow the profile down to, or undefined for all of its contracts. */
+export function checkAddress(v: unknown): string | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  if (typeof v !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(v.trim())) throw badRequest('address must be a 0x-prefixed 20-byte hex address');
+  return v.trim().toLowerCase();
+}
+
+/** Optional epoch-seconds timestamp, as a JSON number or a query-string integer. */
+export function checkTs(v: unknown, name: string): number | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = typeof v === 'string' && /^\d+$/.test(v.trim()) ? Number(v) : v;
+  if (typeof n !== 'number' || !Number.isInteger(n) || n < 0 || n > MAX_TS) throw badRequest(`${name} must be epoch seconds`);
+  return n || undefined;
+}
+
+/** Optional block number, as a JSON number or a query-string integer. */
+export function checkBlock(v: unknown, name: string): number | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = typeof v === 'string' && /^\d+$/.test(v.trim()) ? Number(v) : v;
+  if (typeof n !== 'number' || !Number.isSafeInteger(n) || n < 0) throw badRequest(`${name} must be a block number`);
+  return n;
+}
+
+export function checkRange(startTs?: number, endTs?: number) {
+  if (startTs && endTs && endTs < startTs) throw badRequest('endTs must not be before startTs');
+  return { startTs, endTs };
+}
+
+/**
+ * The profile, RPC override and contract from a request, as one source to query. An
+ * override that is another profile's endpoint is refused: it serves a different chain.
+ */
+export function checkSource(profile: unknown, rpc: unknown, address: unknown): Source {
+  const p = checkProfile(profile);
+  const url = checkRpc(rpc);
+  const other = url && !p.rpcs.includes(url) ? PROFILES.find(x => x.rpcs.includes(url)) : undefined;
+  if (other) throw badRequest(`This RPC endpoint belongs to the "${other.id}" profile; pick that profile instead.`);
+  return sourceFor(p, url, checkAddress(address));
+}
+
+function checkDay(v: string | undefined, name: string) {
+  if (v === undefined) return undefined;
+  if (!isDay(v)) throw badRequest(`${name} must be a YYYY-MM-DD date`);
+  return v;
+}
+
+/** A player page's view from its query string; only the keys that are set, so it can go straight into page props. */
+export function checkPlayerView(q: ParsedUrlQuery): PlayerView {
+  const view: PlayerView = {};
+  const set = <K extends keyof PlayerView>(k: K, v: PlayerView[K] | undefined) => { if (v !== undefined) view[k] = v; };
+  set('profile', checkProfile(strParam(q.profile)).id);
+  set('rpc', checkRpc(strParam(q.rpc)));
+  const days = strParam(q.days);
+  if (days !== undefined) {
+    if (!/^\d+$/.test(days) || +days < 1 || +days > 3650) throw badRequest('days must be between 1 and 3650');
+    set('days', +days);
+  } else {
+    set('from', checkDay(strParam(q.from), 'from'));
+    set('to', checkDay(strParam(q.to), 'to'));
+    if (view.from && view.to && view.to < view.from) throw badRequest('to must not be before from');
+  }
+  const tz = strParam(q.tz);
+  if (tz !== undefined && (tz === LOCAL_TZ || !isTimeZone(tz))) throw badRequest('tz must be an IANA time zone such as Europe/Berlin');
+  set('tz', tz);
+  set('opponent', strParam(q.opponent));
+  const reasons = listParam(q.endReason);
+  if (reasons.length) set('endReason', reasons);
+  if (strParam(q.aliases) === '0') set('aliases', false);
+  return view;
+}
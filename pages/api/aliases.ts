@@ -0,0 +1,32 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseAliasGroups } from '../../lib/aliases';
+import { ApiError, apiHandler, badRequest } from '../../lib/http';
+import { loadAliases, saveAliases } from '../../lib/store';
+
+/** Admin token that PUT must send as `Authorization: Bearer <token>`; without one the groups are read-only. */
+const TOKEN = process.env.ALIASES_TOKEN || '';
+
+function checkToken(req: NextApiRequest) {
+  if (!TOKEN) throw new ApiError(403, 'aliases_read_only', 'Alias groups can only be changed when the server sets ALIASES_TOKEN.');
+  const sent = Buffer.from(String(req.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+  const want = Buffer.from(TOKEN);
+  if (sent.length !== want.length || !timingSafeEqual(sent, want)) throw new ApiError(401, 'unauthorized', 'A valid admin token is needed to change alias groups.');
+}
+
+/**
+ * GET /api/aliases — the saved alias groups, and whether they can be edited. PUT { groups:
+ * [{ name, members }] } with the admin token replaces them; no in-game name may belong to
+ * two groups.
+ */
+export default apiHandler(['GET', 'PUT'], async (req: NextApiRequest, res: NextApiResponse) => {
+  if (req.method === 'PUT') {
+    checkToken(req);
+    const body = req.body || {};
+    if (typeof body !== 'object' || Array.isArray(body)) throw badRequest('Expected a JSON object body');
+    const { groups, errors } = parseAliasGroups(body.groups);
+    if (errors.length) throw badRequest('Invalid alias groups', { errors });
+    await saveAliases(groups);
+  }
+  res.status(200).json({ ok: true, groups: await loadAliases(), editable: !!TOKEN });
+});
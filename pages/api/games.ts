@@ -0,0 +1,68 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { aliasIndex, applyAliases, canonicalName } from '../../lib/aliases';
+import { apiHandler, badRequest } from '../../lib/http';
+import { queryRows } from '../../lib/indexer';
+import { intParam, listParam, optIntParam, strParam } from '../../lib/params';
+import { CSV_COLUMNS, filterRows, paginate, SORT_FIELDS, toCsv, type GameRow, type SortField } from '../../lib/query';
+import { loadAliases } from '../../lib/store';
+import { checkRange, checkSource, checkTs } from '../../lib/validate';
+
+const FORMATS = ['json', 'csv', 'ndjson'] as const;
+
+/**
+ * GET /api/games — decoded games with server-side filtering.
+ *
+ * Range: `startTs`, `endTs` (epoch seconds), `profile`, `rpc`, `address`.
+ * Filters: `player`, `opponent`, `winningClass`, `losingClass`, `endReason` (comma list),
+ * `minGame`, `maxGame`. Names in an alias group count as the group (`aliases=0` turns that
+ * off), and `player`/`opponent` may be any of its names. Sorting: `sort` (blockNumber, the default | gameNumber | startedAt), `order`.
+ * Paging: `limit` and the `cursor` from the previous page (`nextCursor`, or the
+ * `X-Next-Cursor` header for csv/ndjson). `format`: json (default, 100 per page), csv or
+ * ndjson (everything unless `limit` is given). Data-quality `warnings` come with the json
+ * answer; csv/ndjson only count them in `X-Data-Warnings`.
+ */
+export default apiHandler(['GET'], async (req: NextApiRequest, res: NextApiResponse) => {
+  const q = req.query;
+  const format = (strParam(q.format) || 'json').toLowerCase();
+  if (!(FORMATS as readonly string[]).includes(format)) throw badRequest(`format must be one of ${FORMATS.join(', ')}`);
+  const sort = (strParam(q.sort) || 'blockNumber') as SortField;
+  if (!SORT_FIELDS.includes(sort)) throw badRequest(`sort must be one of ${SORT_FIELDS.join(', ')}`);
+  const order = strParam(q.order) === 'desc' ? 'desc' : 'asc';
+  const limit = intParam(q.limit, format === 'json' ? 100 : Infinity, 1, format === 'json' ? 1000 : Infinity);
+
+  const groups = strParam(q.aliases) === '0' ? [] : await loadAliases();
+  const index = aliasIndex(groups);
+  const { rows: raw, warnings } = await queryRows({
+    source: checkSource(strParam(q.profile), strParam(q.rpc), strParam(q.address)),
+    ...checkRange(checkTs(strParam(q.startTs), 'startTs'), checkTs(strParam(q.endTs), 'endTs')),
+  });
+  const rows = applyAliases(raw, groups);
+  const named = (v?: string) => v && canonicalName(index, v);
+  const player = named(strParam(q.player));
+  const matching = filterRows(rows, {
+    player,
+    opponent: named(strParam(q.opponent)),
+    winningClass: strParam(q.winningClass),
+    losingClass: strParam(q.losingClass),
+    endReasons: listParam(q.endReason),
+    minGame: optIntParam(q.minGame),
+    maxGame: optIntParam(q.maxGame),
+  });
+  const page = paginate<GameRow>(matching, sort, order, strParam(q.cursor), limit);
+
+  if (format === 'json') {
+    return res.status(200).json({ ok: true, ...page, warnings });
+  }
+  res.setHeader('X-Data-Warnings', String(warnings.length));
+  if (page.nextCursor) res.setHeader('X-Next-Cursor', page.nextCursor);
+  res.setHeader('X-Total-Count', String(page.total));
+  const base = `showdown_games${player ? `_${player.replace(/[^\w.-]+/g, '_')}` : ''}`;
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${base}.csv"`);
+    return res.status(200).send(toCsv(page.rows, player ? [...CSV_COLUMNS, 'result', 'opponent'] : CSV_COLUMNS));
+  }
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${base}.ndjson"`);
+  res.status(200).send(page.rows.map(r => JSON.stringify(r) + '\n').join(''));
+});
@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { aliasIndex, applyAliases, canonicalName } from '../../lib/aliases';
+import { apiHandler } from '../../lib/http';
+import { queryRows } from '../../lib/indexer';
+import { computeRatings, leaderboard } from '../../lib/rating';
+import { intParam, strParam } from '../../lib/params';
+import { normName } from '../../lib/rows';
+import { loadAliases } from '../../lib/store';
+import { checkSource } from '../../lib/validate';
+
+/**
+ * GET /api/leaderboard?profile=&page=&pageSize=&minGames=&player= — all-time Elo ratings,
+ * with each alias group rated as one player unless `aliases=0`.
+ */
+export default apiHandler(['GET'], async (req: NextApiRequest, res: NextApiResponse) => {
+  const q = req.query;
+  const source = checkSource(strParam(q.profile), strParam(q.rpc), strParam(q.address));
+  const page = intParam(q.page, 1, 1, 1_000_000);
+  const pageSize = intParam(q.pageSize, 50, 1, 500);
+  const minGames = intParam(q.minGames, 1, 1, 1_000_000);
+
+  const groups = strParam(q.aliases) === '0' ? [] : await loadAliases();
+  const { rows: raw, warnings } = await queryRows({ source });
+  const rows = applyAliases(raw, groups);
+  const players = computeRatings(rows);
+  const board = leaderboard(players, page, pageSize, minGames);
+  const name = strParam(q.player);
+  const who = name ? players.get(normName(canonicalName(aliasIndex(groups), name))) : undefined;
+
+  res.status(200).json({ ok: true, ...board, player: who || null, warnings });
+});
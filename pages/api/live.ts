@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLatest } from '../../lib/chain';
+import { ApiError, apiHandler, badRequest, clientId } from '../../lib/http';
+import { follow, MAX_BACKFILL, type LiveEvent } from '../../lib/live';
+import { strParam } from '../../lib/params';
+import { checkBlock, checkSource } from '../../lib/validate';
+
+const MAX_PER_CLIENT = Number(process.env.MAX_LIVE_PER_CLIENT) || 2;
+const KEEPALIVE_MS = 25_000;
+
+const open = new Map<string, number>();
+
+// the stream outlives the handler, which returns as soon as it is set up
+export const config = { api: { externalResolver: true } };
+
+/**
+ * GET ?profile=&rpc=&address=&after= — server-sent events following the chain head: a
+ * `live` event saying how (polling or an `eth_subscribe` subscription), then a `head` event
+ * with the new games each time the head moves, starting after block `after` (or now). Each
+ * `head` carries its block as the event id, so a reconnecting EventSource resumes where it
+ * left off via Last-Event-ID. Errors arrive as `error` events and following goes on; if
+ * they last so long the stream falls MAX_BACKFILL blocks behind, a `gap` event names the
+ * blocks it skips. An
+ * `after` more than MAX_BACKFILL blocks behind the head is refused: older games come from
+ * /api/eth, not from the shared follower.
+ */
+export default apiHandler(['GET'], async (req: NextApiRequest, res: NextApiResponse) => {
+  const q = req.query;
+  const source = checkSource(strParam(q.profile), strParam(q.rpc), strParam(q.address));
+  const resumed = req.headers['last-event-id'];
+  const after = resumed ? checkBlock(String(resumed), 'Last-Event-ID') : checkBlock(strParam(q.after), 'after');
+  if (after !== undefined && after < (await getLatest(source.pool)).num - MAX_BACKFILL) {
+    throw badRequest(`after is more than ${MAX_BACKFILL} blocks behind the head; load older games with /api/eth`);
+  }
+  const id = clientId(req);
+  const count = open.get(id) || 0;
+  if (count >= MAX_PER_CLIENT) throw new ApiError(429, 'too_many_live', `At most ${MAX_PER_CLIENT} live streams at a time per client.`);
+  open.set(id, count + 1);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  const send = (e: LiveEvent) => {
+    res.write(`${e.type === 'head' ? `id: ${e.block}\n` : ''}data: ${JSON.stringify(e)}\n\n`);
+    (res as any).flush?.();
+  };
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+  const unfollow = follow(source, after, send);
+  res.on('close', () => {
+    clearInterval(keepalive);
+    unfollow();
+    const n = (open.get(id) || 1) - 1;
+    if (n) open.set(id, n); else open.delete(id);
+  });
+});
@@ -0,0 +1,8 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { apiHandler } from '../../lib/http';
+import { DEFAULT_PROFILE, PROFILES, publicProfile } from '../../lib/profiles';
+
+/** GET /api/profiles — the networks/contracts the server can query, default first. */
+export default apiHandler(['GET'], async (_req: NextApiRequest, res: NextApiResponse) => {
+  res.status(200).json({ ok: true, default: DEFAULT_PROFILE.id, profiles: PROFILES.map(publicProfile) });
+});
@@ -1,112 +1,249 @@
 import Head from 'next/head';
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Calendar, Download, Loader2, Play, Server, ShieldAlert, UploadCloud } from 'lucide-react';
+import { Calendar, Download, FileUp, Link2, Loader2, Play, Radio, Server, ShieldAlert, UploadCloud } from 'lucide-react';
+import type { PublicProfile } from '../lib/profiles';
+import { aliasIndex, applyAliases, canonicalName, type AliasGroup } from '../lib/aliases';
+import { playerPath } from '../lib/permalink';
+import { fmtDuration, playerMatches, rowTime, type Row } from '../lib/rows';
+import { addDays, dateKey, dayEnd, dayStart, formatTime, LOCAL_TZ, timeZones } from '../lib/timezone';
+import { readNdjson, type StreamEvent } from '../lib/stream';
+import { mergeRows, parseExport, rowKey } from '../lib/dataset';
+import type { DataWarning } from '../lib/integrity';
+import type { LiveEvent } from '../lib/live';
+import Aliases from '../components/Aliases';
+import ClassBreakdown from '../components/ClassBreakdown';
+import Compare from '../components/Compare';
+import DataWarnings from '../components/DataWarnings';
+import Opponents from '../components/Opponents';
+import Outcomes from '../components/Outcomes';
+import Leaderboard from '../components/Leaderboard';
+import Trends from '../components/Trends';
 
-type Row = {
-  blockNumber: number;
-  txHash: string;
-  gameNumber: number;
-  gameId: string;
-  startedAt: string;
-  winningPlayer: string;
-  winningClasses: string;
-  losingPlayer: string;
-  losingClasses: string;
-  gameLength: string;
-  endReason: string;
-};
+const NO_ALIASES: AliasGroup[] = [];
 
-type ApiResponse = { ok: boolean; error?: string; rows?: Row[]; };
+type Progress = { phase: string; done: number; total: number };
+type LastQuery = { profile: string; rpc?: string; startTs?: number; endTs?: number; aliases: boolean };
+type LiveStatus = {
+  mode: 'connecting' | 'poll' | 'subscription' | 'stopped';
+  block?: number;
+  error?: string;
+  /** blocks the stream skipped, whose games are missing until the query runs again */
+  gap?: { fromBlock: number; toBlock: number };
+};
 
-function fmtDate(d: Date) {
-  const y = d.getFullYear();
-  const m = String(d.getMonth()+1).padStart(2,'0');
-  const day = String(d.getDate()).padStart(2,'0');
-  return `${y}-${m}-${day}`;
+/** `/api/games` URL re-running the last query server-side, for exports. */
+function gamesUrl(q: LastQuery, extra: Record<string, string>) {
+  const qs = new URLSearchParams({ profile: q.profile, ...extra });
+  if (q.rpc) qs.set('rpc', q.rpc);
+  if (!q.aliases) qs.set('aliases', '0');
+  if (q.startTs) qs.set('startTs', String(q.startTs));
+  if (q.endTs) qs.set('endTs', String(q.endTs));
+  return `/api/games?${qs}`;
 }
-function toStartOfDayEpoch(dateStr?: string): number | undefined {
-  if (!dateStr) return undefined;
-  const d = new Date(`${dateStr}T00:00`);
-  if (isNaN(d.getTime())) return undefined;
-  return Math.floor(d.getTime()/1000);
+
+/** Live mode only makes sense while the range is still open at the end. */
+function followable(q: LastQuery) {
+  return !q.endTs || q.endTs * 1000 > Date.now();
 }
-function toEndOfDayEpoch(dateStr?: string): number | undefined {
-  if (!dateStr) return undefined;
-  const d = new Date(`${dateStr}T23:59:59`);
-  if (isNaN(d.getTime())) return undefined;
-  return Math.floor(d.getTime()/1000);
+
+function txUrl(profile: PublicProfile | undefined, tx: string) {
+  return profile?.explorerTx ? profile.explorerTx.replace('{tx}', tx) : undefined;
 }
 
 export default function Home() {
-  const [rpc, setRpc] = useState<string>(process.env.NEXT_PUBLIC_RPC_URL || 'https://carrot.megaeth.com/rpc');
-  const [address, setAddress] = useState<string>(process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || '0xae2afe4d192127e6617cfa638a94384b53facec1');
+  const [profiles, setProfiles] = useState<PublicProfile[]>([]);
+  const [profileId, setProfileId] = useState<string>('');
+  const [rpc, setRpc] = useState<string>('');
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
+  const [tz, setTz] = useState<string>(LOCAL_TZ);
+  const [zones, setZones] = useState<{ local: string; all: string[] }>({ local: '', all: [] });
   const [player, setPlayer] = useState<string>('megaflop');
   const [loading, setLoading] = useState(false);
   const [rows, setRows] = useState<Row[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [lastQuery, setLastQuery] = useState<LastQuery | null>(null);
+  const [imported, setImported] = useState<{ files: string[]; skipped: number; errors: string[] } | null>(null);
+  const [aliases, setAliases] = useState<AliasGroup[]>([]);
+  const [aliasesEditable, setAliasesEditable] = useState(false);
+  const [mergeAliases, setMergeAliases] = useState(true);
+  const [live, setLive] = useState(false);
+  /** Last block the current rows cover, once a query has finished; live mode follows on from it. */
+  const [syncedBlock, setSyncedBlock] = useState<number | null>(null);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus | null>(null);
+  const [liveKeys, setLiveKeys] = useState<Set<string>>(new Set());
+  const [warnings, setWarnings] = useState<DataWarning[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // zone names differ between server and browser, so they're only filled in after hydration
+    setZones({ local: Intl.DateTimeFormat().resolvedOptions().timeZone, all: timeZones() });
+    fetch('/api/profiles')
+      .then(r => r.json())
+      .then(j => {
+        if (!j?.ok) throw new Error(j?.error || 'Could not load network profiles');
+        setProfiles(j.profiles);
+        setProfileId(id => id || j.default);
+      })
+      .catch(e => setError(e?.message || String(e)));
+    fetch('/api/aliases')
+      .then(r => r.json())
+      .then(j => { if (j?.ok) { setAliases(j.groups); setAliasesEditable(!!j.editable); } })
+      .catch(() => {});
+  }, []);
+
+  // follow the chain from where the last query stopped; EventSource reconnects (and resumes) on its own
+  useEffect(() => {
+    if (!live || !lastQuery || syncedBlock === null || !followable(lastQuery)) { setLiveStatus(null); return; }
+    const qs = new URLSearchParams({ profile: lastQuery.profile, after: String(syncedBlock) });
+    if (lastQuery.rpc) qs.set('rpc', lastQuery.rpc);
+    const source = new EventSource(`/api/live?${qs}`);
+    setLiveStatus({ mode: 'connecting' });
+    source.onmessage = msg => {
+      const e: LiveEvent = JSON.parse(msg.data);
+      if (e.type === 'live') {
+        setLiveStatus(s => ({ ...s, mode: e.mode, error: undefined }));
+      } else if (e.type === 'head') {
+        setLiveStatus(s => ({ mode: s?.mode || 'poll', block: e.block, gap: s?.gap }));
+        if (e.rows.length) {
+          setRows(prev => mergeRows(prev, e.rows));
+          setLiveKeys(prev => new Set([...prev, ...e.rows.map(rowKey)]));
+        }
+      } else if (e.type === 'error') {
+        setLiveStatus(s => ({ mode: s?.mode || 'poll', block: s?.block, error: e.error, gap: s?.gap }));
+      } else if (e.type === 'gap') {
+        setLiveStatus(s => ({ mode: s?.mode || 'poll', block: s?.block, error: s?.error, gap: { fromBlock: s?.gap?.fromBlock ?? e.fromBlock, toBlock: e.toBlock } }));
+      }
+    };
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) setLiveStatus(s => ({ ...s, mode: 'stopped', error: 'The live stream was refused; try again later.' }));
+      else setLiveStatus(s => ({ ...s, mode: 'connecting' }));
+    };
+    return () => source.close();
+  }, [live, lastQuery, syncedBlock]);
+
+  const profile = profiles.find(p => p.id === profileId);
+
+  // stats see each alias group as one player; the raw rows table still shows who actually played
+  const groups = mergeAliases ? aliases : NO_ALIASES;
+  const index = useMemo(() => aliasIndex(groups), [groups]);
+  const canonical = (name: string) => canonicalName(index, name);
+  const merged = useMemo(() => applyAliases(rows, groups), [rows, groups]);
+  const who = canonical(player);
+
+  const filtered = useMemo(() => playerMatches(merged, who), [merged, who]);
 
   const stats = useMemo(() => {
-    const p = player.trim().toLowerCase();
-    const wins = rows.filter(r => r.winningPlayer?.trim?.().toLowerCase() === p).length;
-    const losses = rows.filter(r => r.losingPlayer?.trim?.().toLowerCase() === p).length;
+    const wins = filtered.filter(m => m.result === 'W').length;
+    const losses = filtered.length - wins;
     const total = wins + losses;
     const winrate = total ? wins / total : 0;
     return { wins, losses, total, winrate };
-  }, [rows, player]);
-
-  const filtered = useMemo(() => {
-    const p = player.trim().toLowerCase();
-    return rows
-      .filter(r => r.winningPlayer?.trim?.().toLowerCase() === p || r.losingPlayer?.trim?.().toLowerCase() === p)
-      .map(r => ({
-        ...r,
-        result: r.winningPlayer?.trim?.().toLowerCase() === p ? 'W' : 'L',
-        opponent: r.winningPlayer?.trim?.().toLowerCase() === p ? r.losingPlayer : r.winningPlayer,
-      }));
-  }, [rows, player]);
+  }, [filtered]);
+  const suggestions = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const g of groups) names.set(g.name.toLowerCase(), g.name);
+    for (const r of merged) for (const n of [r.winningPlayer, r.losingPlayer]) if (n && !names.has(n.toLowerCase())) names.set(n.toLowerCase(), n);
+    return Array.from(names.values()).slice(0, 500);
+  }, [merged, groups]);
 
   const applyPreset = (kind: 'today'|'last7'|'last30'|'thisMonth'|'prevMonth'|'allTime') => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const today = dateKey(Date.now(), tz);
+    const monthStart = `${today.slice(0, 8)}01`;
     if (kind === 'today') {
-      setStartDate(fmtDate(today)); setEndDate(fmtDate(today));
+      setStartDate(today); setEndDate(today);
     } else if (kind === 'last7') {
-      const start = new Date(today); start.setDate(start.getDate()-6);
-      setStartDate(fmtDate(start)); setEndDate(fmtDate(today));
+      setStartDate(addDays(today, -6)); setEndDate(today);
     } else if (kind === 'last30') {
-      const start = new Date(today); start.setDate(start.getDate()-29);
-      setStartDate(fmtDate(start)); setEndDate(fmtDate(today));
+      setStartDate(addDays(today, -29)); setEndDate(today);
     } else if (kind === 'thisMonth') {
-      const start = new Date(today.getFullYear(), today.getMonth(), 1);
-      setStartDate(fmtDate(start)); setEndDate(fmtDate(today));
+      setStartDate(monthStart); setEndDate(today);
     } else if (kind === 'prevMonth') {
-      const startPrev = new Date(today.getFullYear(), today.getMonth()-1, 1);
-      const endPrev = new Date(today.getFullYear(), today.getMonth(), 0);
-      setStartDate(fmtDate(startPrev)); setEndDate(fmtDate(endPrev));
+      const endPrev = addDays(monthStart, -1);
+      setStartDate(`${endPrev.slice(0, 8)}01`); setEndDate(endPrev);
     } else if (kind === 'allTime') {
       setStartDate(''); setEndDate('');
     }
   };
 
   const run = async () => {
-    setLoading(true); setError(null); setRows([]);
+    setLoading(true); setError(null); setRows([]); setImported(null); setSyncedBlock(null); setLiveKeys(new Set()); setWarnings([]);
+    setProgress({ phase: 'Resolving start date to a block', done: 0, total: 0 });
+    let received = 0, toBlock: number | null = null;
     try {
-      const body = {
-        rpc, address,
-        startTs: toStartOfDayEpoch(startDate),
-        endTs:   toEndOfDayEpoch(endDate)
+      const query: LastQuery = {
+        profile: profileId,
+        rpc: rpc.trim() || undefined,
+        aliases: mergeAliases,
+        startTs: dayStart(startDate, tz),
+        endTs:   dayEnd(endDate, tz),
       };
+      setLastQuery(query);
+      const body = { ...query, stream: true };
       const res = await fetch('/api/eth', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
-      const j: ApiResponse = await res.json();
-      if (!j.ok) throw new Error(j.error || 'Unknown error');
-      setRows(j.rows || []);
+      if (!res.ok) {
+        const j = await res.json().catch(() => null);
+        throw new Error(j?.error || `HTTP ${res.status}`);
+      }
+      if (!res.body) throw new Error('This browser cannot read streamed responses');
+      let finished = false;
+      await readNdjson<StreamEvent>(res.body, e => {
+        if (e.type === 'resolving') {
+          setProgress(p => ({ ...p!, phase: e.what === 'start' ? 'Resolving start date to a block' : 'Resolving end date to a block' }));
+        } else if (e.type === 'blocks') {
+          toBlock = e.toBlock;
+          setProgress(p => ({ ...p!, phase: `Blocks ${e.fromBlock.toLocaleString()} → ${e.toBlock.toLocaleString()}` }));
+        } else if (e.type === 'progress') {
+          setProgress(p => ({ ...p!, phase: 'Fetching logs', done: e.done, total: e.total }));
+        } else if (e.type === 'rows') {
+          received += e.rows.length;
+          setRows(prev => [...prev, ...e.rows]);
+        } else if (e.type === 'rechecking') {
+          setProgress(p => ({ ...p!, phase: `Fetching ${e.ranges} suspicious ${e.ranges === 1 ? 'range' : 'ranges'} again`, done: 0, total: 0 }));
+        } else if (e.type === 'replace') {
+          setRows(prev => [...prev.filter(r => r.blockNumber < e.fromBlock || r.blockNumber > e.toBlock), ...e.rows]);
+        } else if (e.type === 'warnings') {
+          setWarnings(e.warnings);
+        } else if (e.type === 'done') {
+          finished = true;
+          // cached rows stream first, so put everything back in chain order
+          setRows(prev => [...prev].sort((a, b) => a.blockNumber - b.blockNumber));
+          setSyncedBlock(toBlock);
+        } else if (e.type === 'error') {
+          finished = true;
+          throw new Error(e.error);
+        }
+      });
+      if (!finished) throw new Error('Connection closed before the query finished');
+    } catch (e: any) {
+      const msg = e?.message || String(e);
+      setError(received ? `${msg} (showing the ${received} rows fetched before the failure)` : msg);
+    } finally {
+      setLoading(false); setProgress(null);
+    }
+  };
+
+  /** Loads exported results files into the page without touching the network. */
+  const importFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setError(null);
+    try {
+      const results = await Promise.all(Array.from(files).map(async f => ({ name: f.name, ...parseExport(await f.text(), f.name) })));
+      // keep adding to an imported dataset, but don't mix with rows fetched for another query
+      const base = imported ? rows : [];
+      setRows(mergeRows(base, ...results.map(r => r.rows)));
+      setImported({
+        files: [...(imported?.files || []), ...results.map(r => r.name)],
+        skipped: (imported?.skipped || 0) + results.reduce((n, r) => n + r.skipped, 0),
+        errors: [...(imported?.errors || []), ...results.flatMap(r => r.errors)].slice(0, 20),
+      });
+      setLastQuery(null); setSyncedBlock(null); setLiveKeys(new Set()); setWarnings([]);
     } catch (e: any) {
       setError(e?.message || String(e));
     } finally {
-      setLoading(false);
+      if (fileInput.current) fileInput.current.value = '';
     }
   };
 
@@ -122,15 +259,19 @@ export default function Home() {
       <Head><title>Showdown Winrate Checker</title></Head>
       <div className="mx-auto max-w-4xl px-4 py-10">
         <motion.h1 initial={{ opacity: 0, y: -6 }} animate={{ opacity: 1, y: 0 }} className="text-3xl font-semibold tracking-tight">Showdown Winrate Checker</motion.h1>
-        <p className="mt-2 text-gray-600">Pick a <b>start</b> and <b>end</b> date (local). I’ll resolve them to the right block numbers and fetch on-chain <code>GameResultEvent</code> logs. Huge ranges are auto-chunked.</p>
+        <p className="mt-2 text-gray-600">Pick a <b>start</b> and <b>end</b> date and the time zone they’re in. I’ll resolve them to the right block numbers and fetch on-chain <code>GameResultEvent</code> logs. Huge ranges are auto-chunked.</p>
 
         <div className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-2">
           <div className="rounded-2xl bg-white p-4 shadow-sm">
             <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><Server className="h-4 w-4"/> Chain Settings</div>
-            <label className="mt-3 block text-xs text-gray-500">RPC URL</label>
-            <input className="mt-1 w-full rounded-xl border p-2 text-sm" value={rpc} onChange={e=>setRpc(e.target.value)} />
-            <label className="mt-3 block text-xs text-gray-500">Contract Address</label>
-            <input className="mt-1 w-full rounded-xl border p-2 text-sm" value={address} onChange={e=>setAddress(e.target.value)} />
+            <label className="mt-3 block text-xs text-gray-500">Network</label>
+            <select className="mt-1 w-full rounded-xl border p-2 text-sm" value={profileId} onChange={e=>{ setProfileId(e.target.value); setRpc(''); }}>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <label className="mt-3 block text-xs text-gray-500">RPC URL (optional override)</label>
+            <input className="mt-1 w-full rounded-xl border p-2 text-sm" value={rpc} onChange={e=>setRpc(e.target.value)} placeholder={profile?.rpcs[0] || ''} />
+            <label className="mt-3 block text-xs text-gray-500">{profile && profile.contracts.length > 1 ? 'Contracts' : 'Contract'}</label>
+            <div className="mt-1 break-all text-xs text-gray-700">{profile?.contracts.map(c => <div key={c} className="font-mono">{c}</div>)}</div>
             <div className="mt-3 grid grid-cols-2 gap-3">
               <div>
                 <label className="block text-xs text-gray-500">Start date</label>
@@ -147,6 +288,11 @@ export default function Home() {
                 </div>
               </div>
             </div>
+            <label className="mt-3 block text-xs text-gray-500">Time zone (dates, times and daily trends)</label>
+            <select className="mt-1 w-full rounded-xl border p-2 text-sm" value={tz} onChange={e=>setTz(e.target.value)}>
+              <option value={LOCAL_TZ}>Local{zones.local ? ` (${zones.local})` : ''}</option>
+              {zones.all.map(z => <option key={z} value={z}>{z}</option>)}
+            </select>
             <div className="mt-3 flex flex-wrap gap-2 text-xs">
               <span className="text-gray-500 mr-1">Presets:</span>
               <button className="rounded-full border px-3 py-1" onClick={()=>applyPreset('today')}>Today</button>
@@ -162,10 +308,68 @@ export default function Home() {
             <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><UploadCloud className="h-4 w-4"/> Query</div>
             <label className="mt-3 block text-xs text-gray-500">Player Name</label>
             <input className="mt-1 w-full rounded-xl border p-2 text-sm" value={player} onChange={e=>setPlayer(e.target.value)} placeholder="megaflop" />
-            <button onClick={run} disabled={loading} className="mt-4 inline-flex items-center gap-2 rounded-2xl bg-black px-4 py-2 text-white shadow disabled:opacity-60">
+            <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={mergeAliases} onChange={e=>setMergeAliases(e.target.checked)} />
+              Merge alias groups{who !== player.trim() && player.trim() ? <span> (showing <b>{who}</b>)</span> : null}
+            </label>
+            {player.trim() && (
+              <a
+                href={playerPath(player.trim(), { profile: profileId || undefined, rpc: rpc.trim() || undefined, from: startDate || undefined, to: endDate || undefined, tz: tz === LOCAL_TZ ? zones.local : tz, aliases: mergeAliases })}
+                className="mt-2 inline-flex items-center gap-1 text-xs text-blue-600 underline"
+              >
+                <Link2 className="h-3 w-3"/> Shareable player page
+              </a>
+            )}
+            <button onClick={run} disabled={loading || !profileId} className="mt-4 inline-flex items-center gap-2 rounded-2xl bg-black px-4 py-2 text-white shadow disabled:opacity-60">
               {loading ? <Loader2 className="h-4 w-4 animate-spin"/> : <Play className="h-4 w-4"/>}
               {loading ? "Fetching..." : "Compute Winrate"}
             </button>
+            <button onClick={() => fileInput.current?.click()} disabled={loading} className="mt-4 ml-2 inline-flex items-center gap-2 rounded-2xl border px-4 py-2 disabled:opacity-60">
+              <FileUp className="h-4 w-4"/> Import JSON
+            </button>
+            <label className="mt-3 flex items-center gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={live} onChange={e=>setLive(e.target.checked)} />
+              <Radio className={`h-3 w-3 ${liveStatus && liveStatus.mode !== 'stopped' ? 'text-red-600 animate-pulse' : ''}`}/>
+              Live: keep adding new games as they land on-chain
+            </label>
+            {live && (
+              <div className="mt-1 text-xs text-gray-500">
+                {!lastQuery || syncedBlock === null ? 'Starts once a query has finished.'
+                  : !followable(lastQuery) ? 'The range has ended; clear the end date (or pick today) to follow new games.'
+                  : liveStatus?.mode === 'connecting' ? 'Connecting…'
+                  : liveStatus?.mode === 'stopped' ? 'Stopped.'
+                  : <>Following {liveStatus?.mode === 'subscription' ? 'a log subscription' : 'new blocks'}{liveStatus?.block ? <> · up to block <span className="tabular-nums">{liveStatus.block.toLocaleString()}</span></> : null}</>}
+                {liveStatus?.error && <div className="text-red-700">{liveStatus.error}</div>}
+                {liveStatus?.gap && (
+                  <div className="text-red-700">
+                    Games in blocks {liveStatus.gap.fromBlock.toLocaleString()}–{liveStatus.gap.toBlock.toLocaleString()} were missed while following and are not in the stats; Compute again to include them.
+                  </div>
+                )}
+              </div>
+            )}
+            <input ref={fileInput} type="file" accept=".json,application/json" multiple className="hidden" style={{ display: 'none' }} onChange={e => importFiles(e.target.files)} />
+            {imported && (
+              <div className="mt-3 rounded-xl border p-2 text-xs text-gray-700">
+                <div>Offline dataset: <b>{rows.length}</b> rows from {imported.files.join(', ')}. No RPC calls are made until you click Compute.</div>
+                {imported.skipped > 0 && (
+                  <div className="mt-1 text-red-700">
+                    Skipped {imported.skipped} invalid {imported.skipped === 1 ? 'entry' : 'entries'}:
+                    <ul className="ml-4 list-disc">{imported.errors.map((e, i) => <li key={i}>{e}</li>)}</ul>
+                  </div>
+                )}
+              </div>
+            )}
+            {loading && progress && (
+              <div className="mt-3">
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>{progress.phase}</span>
+                  {progress.total > 0 && <span className="tabular-nums">{progress.done.toLocaleString()} / {progress.total.toLocaleString()} blocks</span>}
+                </div>
+                <div className="mt-1 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                  <div className="h-2 rounded-full bg-black transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+                </div>
+              </div>
+            )}
             {error && (
               <div className="mt-3 rounded-xl border border-red-200 bg-red-50 p-2 text-sm text-red-700 flex items-start gap-2">
                 <ShieldAlert className="h-4 w-4 mt-0.5"/>
@@ -194,15 +398,37 @@ export default function Home() {
             <div className="mt-1 text-3xl font-semibold">{(stats.winrate*100).toFixed(2)}%</div>
           </div>
         </div>
+        <DataWarnings warnings={warnings} />
+
+        <Trends matches={filtered} player={who} timeZone={tz} />
+
+        <ClassBreakdown rows={merged} player={who} />
+
+        <Outcomes matches={filtered} rows={merged} player={who} />
+
+        <Opponents matches={filtered} player={who} timeZone={tz} />
+
+        <Compare rows={merged} suggestions={suggestions} canonical={canonical} timeZone={tz} />
+
+        <Leaderboard profile={profileId} rpc={rpc.trim()} aliases={mergeAliases} player={who} onSelect={setPlayer} />
+
+        <Aliases groups={aliases} editable={aliasesEditable} onSaved={setAliases} />
 
         {/* Player-specific matches */}
         <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
           <div className="flex items-center justify-between">
-            <div className="text-sm font-medium text-gray-700">Matches for <span className="font-semibold">{player || '—'}</span> ({filtered.length})</div>
+            <div className="text-sm font-medium text-gray-700">Matches for <span className="font-semibold">{who || '—'}</span> ({filtered.length})</div>
             {filtered.length > 0 && (
-              <button onClick={() => dl("showdown_matches_for_" + (player||'player') + ".json", filtered)} className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm">
-                <Download className="h-4 w-4"/> Download JSON
-              </button>
+              <div className="flex gap-2">
+                <button onClick={() => dl("showdown_matches_for_" + (who||'player') + ".json", filtered)} className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm">
+                  <Download className="h-4 w-4"/> Download JSON
+                </button>
+                {lastQuery && (
+                  <a href={gamesUrl(lastQuery, { format: 'csv', player: who })} download className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm text-gray-900 no-underline">
+                    <Download className="h-4 w-4"/> Download CSV
+                  </a>
+                )}
+              </div>
             )}
           </div>
           <div className="mt-3 overflow-x-auto">
@@ -214,25 +440,27 @@ export default function Home() {
                   <th className="p-2">Result</th>
                   <th className="p-2">Opponent</th>
                   <th className="p-2">Started</th>
+                  <th className="p-2">Length</th>
                   <th className="p-2">Reason</th>
                   <th className="p-2">Tx</th>
                 </tr>
               </thead>
               <tbody>
                 {filtered.map((r, i) => (
-                  <tr key={r.txHash + i} className="border-b">
+                  <tr key={r.txHash + i} className={`border-b ${liveKeys.has(rowKey(r)) ? 'bg-green-50' : ''}`}>
                     <td className="p-2 tabular-nums">{r.blockNumber}</td>
                     <td className="p-2 tabular-nums">{r.gameNumber}</td>
                     <td className="p-2 font-medium">{r.result}</td>
                     <td className="p-2">{r.opponent}</td>
-                    <td className="p-2">{r.startedAt}</td>
+                    <td className="p-2" title={r.startedAt}>{formatTime(rowTime(r), tz)}</td>
+                    <td className="p-2 tabular-nums" title={r.gameLength}>{fmtDuration(r.lengthSec)}</td>
                     <td className="p-2">{r.endReason}</td>
-                    <td className="p-2"><a className="text-blue-600 underline" href={`https://web3.okx.com/explorer/megaeth-testnet/tx/${r.txHash}`} target="_blank" rel="noreferrer">tx</a></td>
+                    <td className="p-2"><a className="text-blue-600 underline" href={txUrl(profile, r.txHash)} target="_blank" rel="noreferrer">tx</a></td>
                   </tr>
                 ))}
                 {filtered.length === 0 && (
                   <tr>
-                    <td className="p-6 text-center text-gray-500" colSpan={7}>No matches for this player (in the chosen range) yet.</td>
+                    <td className="p-6 text-center text-gray-500" colSpan={8}>No matches for this player (in the chosen range) yet.</td>
                   </tr>
                 )}
               </tbody>
@@ -245,9 +473,16 @@ export default function Home() {
           <div className="flex items-center justify-between">
             <div className="text-sm font-medium text-gray-700">All Decoded Matches ({rows.length})</div>
             {rows.length > 0 && (
-              <button onClick={() => dl("showdown_winrate_results.json", rows)} className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm">
-                <Download className="h-4 w-4"/> Download JSON
-              </button>
+              <div className="flex gap-2">
+                <button onClick={() => dl("showdown_winrate_results.json", rows)} className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm">
+                  <Download className="h-4 w-4"/> Download JSON
+                </button>
+                {lastQuery && (
+                  <a href={gamesUrl(lastQuery, { format: 'csv' })} download className="inline-flex items-center gap-2 rounded-xl border px-3 py-1.5 text-sm text-gray-900 no-underline">
+                    <Download className="h-4 w-4"/> Download CSV
+                  </a>
+                )}
+              </div>
             )}
           </div>
           <div className="mt-3 overflow-x-auto">
@@ -258,6 +493,7 @@ export default function Home() {
                   <th className="p-2">Game #</th>
                   <th className="p-2">Game ID</th>
                   <th className="p-2">Started</th>
+                  <th className="p-2">Length</th>
                   <th className="p-2">Winner</th>
                   <th className="p-2">Loser</th>
                   <th className="p-2">Reason</th>
@@ -266,20 +502,21 @@ export default function Home() {
               </thead>
               <tbody>
                 {rows.map((r, i) => (
-                  <tr key={r.txHash + i} className="border-b">
+                  <tr key={r.txHash + i} className={`border-b ${liveKeys.has(rowKey(r)) ? 'bg-green-50' : ''}`}>
                     <td className="p-2 tabular-nums">{r.blockNumber}</td>
                     <td className="p-2 tabular-nums">{r.gameNumber}</td>
                     <td className="p-2">{r.gameId}</td>
-                    <td className="p-2">{r.startedAt}</td>
+                    <td className="p-2" title={r.startedAt}>{formatTime(rowTime(r), tz)}</td>
+                    <td className="p-2 tabular-nums" title={r.gameLength}>{fmtDuration(r.lengthSec)}</td>
                     <td className="p-2 font-medium">{r.winningPlayer}</td>
                     <td className="p-2">{r.losingPlayer}</td>
                     <td className="p-2">{r.endReason}</td>
-                    <td className="p-2"><a className="text-blue-600 underline" href={`https://web3.okx.com/explorer/megaeth-testnet/tx/${r.txHash}`} target="_blank" rel="noreferrer">tx</a></td>
+                    <td className="p-2"><a className="text-blue-600 underline" href={txUrl(profile, r.txHash)} target="_blank" rel="noreferrer">tx</a></td>
                   </tr>
                 ))}
                 {rows.length === 0 && (
                   <tr>
-                    <td className="p-6 text-center text-gray-500" colSpan={8}>
+                    <td className="p-6 text-center text-gray-500" colSpan={9}>
                       {loading ? "Fetching logs..." : "No rows yet. Pick a date range and click Compute."}
                     </td>
                   </tr>
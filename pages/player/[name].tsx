@@ -0,0 +1,240 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import type { GetServerSideProps } from 'next';
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Calendar, History, Link2, Swords } from 'lucide-react';
+import { aliasIndex, applyAliases, canonicalName } from '../../lib/aliases';
+import { playerClassStats } from '../../lib/classes';
+import { pageUrl, toApiError, withLimits } from '../../lib/http';
+import { queryRows } from '../../lib/indexer';
+import type { DataWarning } from '../../lib/integrity';
+import { describeRange, playerPath, viewRange, type PlayerView } from '../../lib/permalink';
+import { DEFAULT_PROFILE, publicProfile, type PublicProfile } from '../../lib/profiles';
+import { filterRows } from '../../lib/query';
+import { chainOrder, fmtDuration, pct, rowTime, type PlayerMatch } from '../../lib/rows';
+import { loadAliases } from '../../lib/store';
+import { streaks } from '../../lib/timeseries';
+import { formatTime, timeZones } from '../../lib/timezone';
+import { checkPlayerView, checkSource } from '../../lib/validate';
+import { TallyTable } from '../../components/ClassBreakdown';
+import DataWarnings from '../../components/DataWarnings';
+import Opponents from '../../components/Opponents';
+import Outcomes from '../../components/Outcomes';
+
+const RECENT = 25;
+const PRESETS = [7, 30, 90];
+
+type Props = {
+  /** the name in the URL */
+  name: string;
+  /** who the stats are for: the alias group `name` belongs to, or `name` itself */
+  player: string;
+  view: PlayerView;
+  profile: PublicProfile;
+  matches: PlayerMatch[];
+  warnings: DataWarning[];
+  /** absolute URL of this page, for link previews */
+  url: string;
+  error: string | null;
+};
+
+export const getServerSideProps: GetServerSideProps<Props> = async ({ params, query, req, res }) => {
+  const name = String(params?.name || '').trim();
+  let view: PlayerView = {};
+  // the permalink rebuilt from the view: on client-side navigation req.url is the JSON data route
+  const link = () => pageUrl(req, playerPath(name, view));
+  let profile = DEFAULT_PROFILE;
+  try {
+    view = checkPlayerView(query);
+    const source = checkSource(view.profile, view.rpc, undefined);
+    profile = source.profile;
+    const groups = view.aliases === false ? [] : await loadAliases();
+    const index = aliasIndex(groups);
+    const player = canonicalName(index, name);
+    const { rows, warnings } = await withLimits(req, res, () => queryRows({ source, ...viewRange(view) }));
+    const matches = filterRows(applyAliases(rows, groups), {
+      player,
+      opponent: view.opponent && canonicalName(index, view.opponent),
+      endReasons: view.endReason,
+    }) as PlayerMatch[];
+    const { url, trusted } = link();
+    // og:url is part of the page, so one built from the Host header stays with this client
+    res.setHeader('Cache-Control', trusted ? 'public, s-maxage=60, stale-while-revalidate=300' : 'private, max-age=60');
+    return { props: { name, player, view, profile: publicProfile(profile), matches, warnings, url, error: null } };
+  } catch (e) {
+    const err = toApiError(e);
+    res.statusCode = err.status;
+    return { props: { name, player: name, view, profile: publicProfile(profile), matches: [], warnings: [], url: link().url, error: err.message } };
+  }
+};
+
+function Card({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl bg-white p-4 text-center shadow-sm">
+      <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+      <div className="mt-1 text-3xl font-semibold">{value}</div>
+    </div>
+  );
+}
+
+export default function PlayerPage({ name, player, view, profile, matches, warnings, url, error }: Props) {
+  const router = useRouter();
+  const [from, setFrom] = useState(view.from || '');
+  const [to, setTo] = useState(view.to || '');
+  const [opponent, setOpponent] = useState(view.opponent || '');
+  const [endReason, setEndReason] = useState((view.endReason || []).join(', '));
+  const [tz, setTz] = useState(view.tz || 'UTC');
+  const [zones, setZones] = useState<string[]>([]);
+  useEffect(() => { setZones(timeZones()); }, []);
+  const shownTz = view.tz || 'UTC';
+
+  const wins = matches.filter(m => m.result === 'W').length;
+  const losses = matches.length - wins;
+  const winrate = matches.length ? wins / matches.length : 0;
+  const classes = useMemo(() => playerClassStats(matches, player), [matches, player]);
+  const s = useMemo(() => streaks(matches), [matches]);
+  const recent = useMemo(() => [...matches].sort((a, b) => chainOrder(b, a)).slice(0, RECENT), [matches]);
+
+  const range = describeRange(view);
+  const title = `${player}: ${wins}-${losses}${matches.length ? ` (${pct(winrate)})` : ''} · Showdown`;
+  const topClass = classes.byCombo[0];
+  const description = [
+    `${matches.length} games, ${range}, on ${profile.name}.`,
+    topClass ? `Most played: ${topClass.key} (${topClass.wins}-${topClass.losses}).` : '',
+    view.opponent ? `Against ${view.opponent} only.` : '',
+  ].filter(Boolean).join(' ');
+
+  const base: PlayerView = { profile: view.profile, rpc: view.rpc, tz: view.tz, aliases: view.aliases };
+  const apply = () => router.push(playerPath(name, {
+    ...base,
+    tz: tz.trim() || undefined,
+    from: from || undefined,
+    to: to || undefined,
+    opponent: opponent.trim() || undefined,
+    endReason: endReason.split(',').map(x => x.trim()).filter(Boolean),
+  }));
+  const txUrl = (tx: string) => profile.explorerTx ? profile.explorerTx.replace('{tx}', tx) : undefined;
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900">
+      <Head>
+        <title>{title}</title>
+        <meta name="description" content={description} />
+        <meta property="og:type" content="profile" />
+        <meta property="og:site_name" content="Showdown Winrate Checker" />
+        <meta property="og:title" content={title} />
+        <meta property="og:description" content={description} />
+        <meta property="og:url" content={url} />
+        <meta name="twitter:card" content="summary" />
+        <meta name="twitter:title" content={title} />
+        <meta name="twitter:description" content={description} />
+      </Head>
+      <div className="mx-auto max-w-4xl px-4 py-10">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-600"><ArrowLeft className="h-4 w-4"/> Winrate checker</Link>
+        <h1 className="mt-3 text-3xl font-semibold tracking-tight">{player}</h1>
+        <p className="mt-1 text-gray-600">
+          {range} on {profile.name}
+          {player !== name && <> · alias group of <b>{name}</b></>}
+          {view.opponent && <> · vs <b>{view.opponent}</b></>}
+          {view.endReason?.length ? <> · ended by {view.endReason.join(', ')}</> : null}
+        </p>
+
+        <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><Calendar className="h-4 w-4"/> Range &amp; filters <span className="text-xs font-normal text-gray-500">(dates and times in {shownTz})</span></div>
+          <div className="mt-3 flex flex-wrap gap-2 text-xs">
+            {PRESETS.map(d => (
+              <Link key={d} href={playerPath(name, { ...base, days: d })} className={`rounded-full border px-3 py-1 ${view.days === d ? 'bg-black text-white' : ''}`}>Last {d} days</Link>
+            ))}
+            <Link href={playerPath(name, base)} className={`rounded-full border px-3 py-1 ${range === 'all time' ? 'bg-black text-white' : ''}`}>All time</Link>
+          </div>
+          <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-5">
+            <div>
+              <label className="block text-xs text-gray-500">From</label>
+              <input type="date" className="mt-1 w-full rounded-xl border p-2 text-sm" value={from} onChange={e => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500">To</label>
+              <input type="date" className="mt-1 w-full rounded-xl border p-2 text-sm" value={to} onChange={e => setTo(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500">Time zone</label>
+              <input className="mt-1 w-full rounded-xl border p-2 text-sm" list="time-zones" value={tz} onChange={e => setTz(e.target.value)} />
+              <datalist id="time-zones">{zones.map(z => <option key={z} value={z} />)}</datalist>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500">Opponent</label>
+              <input className="mt-1 w-full rounded-xl border p-2 text-sm" value={opponent} onChange={e => setOpponent(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500">End reasons</label>
+              <input className="mt-1 w-full rounded-xl border p-2 text-sm" value={endReason} onChange={e => setEndReason(e.target.value)} placeholder="comma-separated" />
+            </div>
+          </div>
+          <div className="mt-3 flex items-center gap-3">
+            <button onClick={apply} className="rounded-2xl bg-black px-4 py-2 text-sm text-white shadow">Apply</button>
+            <button onClick={() => navigator.clipboard?.writeText(url)} className="inline-flex items-center gap-1 rounded-2xl border px-4 py-2 text-sm">
+              <Link2 className="h-4 w-4"/> Copy link
+            </button>
+          </div>
+          {error && <div className="mt-3 rounded-xl border border-red-200 bg-red-50 p-2 text-sm text-red-700">{error}</div>}
+        </div>
+
+        <div className="mt-6 grid grid-cols-2 gap-4 md:grid-cols-4">
+          <Card label="Games" value={String(matches.length)} />
+          <Card label="W-L" value={`${wins}-${losses}`} />
+          <Card label="Win Rate" value={matches.length ? pct(winrate, 2) : '—'} />
+          <Card label="Streak" value={s.current ? `${s.current.length}${s.current.result}` : '—'} />
+        </div>
+        <DataWarnings warnings={warnings} />
+
+        <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><Swords className="h-4 w-4"/> Classes</div>
+          <div className="mt-3 grid grid-cols-1 gap-4 md:grid-cols-2 overflow-x-auto">
+            <TallyTable title="By class" rows={classes.byClass} empty="No class data for this player." />
+            <TallyTable title="By combination" rows={classes.byCombo.slice(0, 10)} empty="No class data for this player." />
+          </div>
+        </div>
+
+        <div className="mt-6 rounded-2xl bg-white p-4 shadow-sm">
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-700"><History className="h-4 w-4"/> Recent matches</div>
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="p-2">Game #</th>
+                  <th className="p-2">Result</th>
+                  <th className="p-2">Opponent</th>
+                  <th className="p-2">Started</th>
+                  <th className="p-2">Length</th>
+                  <th className="p-2">Reason</th>
+                  <th className="p-2">Tx</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((m, i) => (
+                  <tr key={m.txHash + i} className="border-b">
+                    <td className="p-2 tabular-nums">{m.gameNumber}</td>
+                    <td className="p-2 font-medium">{m.result}</td>
+                    <td className="p-2"><Link className="text-blue-600 underline" href={playerPath(m.opponent, base)}>{m.opponent}</Link></td>
+                    <td className="p-2" title={m.startedAt}>{formatTime(rowTime(m), shownTz)}</td>
+                    <td className="p-2 tabular-nums">{fmtDuration(m.lengthSec)}</td>
+                    <td className="p-2">{m.endReason}</td>
+                    <td className="p-2"><a className="text-blue-600 underline" href={txUrl(m.txHash)} target="_blank" rel="noreferrer">tx</a></td>
+                  </tr>
+                ))}
+                {recent.length === 0 && (
+                  <tr><td className="p-6 text-center text-gray-500" colSpan={7}>No matches for this player in this range.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <Outcomes matches={matches} player={player} />
+
+        <Opponents matches={matches} player={player} timeZone={shownTz} />
+      </div>
+    </div>
+  );
+}